@@ -0,0 +1,111 @@
+"use client";
+
+import { computeFalseColor, computeZebraMask } from "@bc/lib/frameAnalysis";
+import { useFrameSampler } from "@bc/lib/useFrameSampler";
+import { useVideoLayout } from "@bc/lib/useVideoLayout";
+import { type RefObject, useRef } from "react";
+import { VideoContentFrame } from "./VideoContentFrame";
+
+export type ExposureOverlayMode = "off" | "zebra" | "falseColor";
+
+const ZEBRA_PERIOD = 12;
+const ZEBRA_SPEED = 24; // pixels per second
+
+function resizeCanvas(
+	canvas: HTMLCanvasElement,
+	width: number,
+	height: number,
+) {
+	if (canvas.width !== width) canvas.width = width;
+	if (canvas.height !== height) canvas.height = height;
+}
+
+function drawZebra(
+	canvas: HTMLCanvasElement,
+	maskCanvas: HTMLCanvasElement,
+	mask: ImageData,
+	now: number,
+) {
+	const context = canvas.getContext("2d");
+	const maskContext = maskCanvas.getContext("2d");
+	if (!context || !maskContext) return;
+
+	resizeCanvas(maskCanvas, mask.width, mask.height);
+	maskContext.putImageData(mask, 0, 0);
+
+	const { width, height } = canvas;
+	const phase = ((now / 1000) * ZEBRA_SPEED) % ZEBRA_PERIOD;
+
+	context.clearRect(0, 0, width, height);
+
+	// Diagonal stripes marching across the frame
+	context.globalCompositeOperation = "source-over";
+	context.strokeStyle = "rgba(255, 255, 255, 0.85)";
+	context.lineWidth = ZEBRA_PERIOD / 2;
+	context.beginPath();
+	for (let x = -height - ZEBRA_PERIOD + phase; x < width; x += ZEBRA_PERIOD) {
+		context.moveTo(x, height);
+		context.lineTo(x + height, 0);
+	}
+	context.stroke();
+
+	// Keep the stripes only where the frame is over the threshold
+	context.globalCompositeOperation = "destination-in";
+	context.drawImage(maskCanvas, 0, 0, width, height);
+	context.globalCompositeOperation = "source-over";
+}
+
+interface ExposureOverlayProps {
+	videoRef: RefObject<HTMLVideoElement | null>;
+	mode: ExposureOverlayMode;
+	/** Zebra threshold, IEC luma percent */
+	zebraThreshold: number;
+}
+
+export function ExposureOverlay({
+	videoRef,
+	mode,
+	zebraThreshold,
+}: ExposureOverlayProps) {
+	const layout = useVideoLayout(videoRef);
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+	const maskCanvasRef = useRef<HTMLCanvasElement | null>(null);
+
+	// The overlay is computed from the live frames, so it follows ISO,
+	// exposure time and EV changes as soon as the camera applies them
+	useFrameSampler(
+		videoRef,
+		{ enabled: mode !== "off", intervalMs: 66, width: 320 },
+		(frame) => {
+			const canvas = canvasRef.current;
+			if (!canvas || !layout) return;
+
+			if (mode === "falseColor") {
+				resizeCanvas(canvas, frame.width, frame.height);
+				canvas.getContext("2d")?.putImageData(computeFalseColor(frame), 0, 0);
+				return;
+			}
+
+			resizeCanvas(
+				canvas,
+				Math.round(layout.content.width),
+				Math.round(layout.content.height),
+			);
+			maskCanvasRef.current ??= document.createElement("canvas");
+			drawZebra(
+				canvas,
+				maskCanvasRef.current,
+				computeZebraMask(frame, zebraThreshold),
+				performance.now(),
+			);
+		},
+	);
+
+	if (mode === "off" || !layout) return null;
+
+	return (
+		<VideoContentFrame layout={layout}>
+			<canvas ref={canvasRef} className="h-full w-full" />
+		</VideoContentFrame>
+	);
+}
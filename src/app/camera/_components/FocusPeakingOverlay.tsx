@@ -0,0 +1,62 @@
+"use client";
+
+import { computeFocusPeaking } from "@bc/lib/frameAnalysis";
+import { useFrameSampler } from "@bc/lib/useFrameSampler";
+import { useVideoLayout } from "@bc/lib/useVideoLayout";
+import { type RefObject, useRef } from "react";
+import { VideoContentFrame } from "./VideoContentFrame";
+
+export const PEAKING_COLORS = {
+	red: [255, 40, 40],
+	yellow: [255, 230, 0],
+	green: [40, 255, 80],
+	blue: [40, 140, 255],
+	white: [255, 255, 255],
+} satisfies Record<string, [number, number, number]>;
+
+export type PeakingColor = keyof typeof PEAKING_COLORS;
+
+interface FocusPeakingOverlayProps {
+	videoRef: RefObject<HTMLVideoElement | null>;
+	enabled: boolean;
+	color: PeakingColor;
+	/** 0 (only the strongest edges) to 1 (most edges) */
+	sensitivity: number;
+}
+
+export function FocusPeakingOverlay({
+	videoRef,
+	enabled,
+	color,
+	sensitivity,
+}: FocusPeakingOverlayProps) {
+	const layout = useVideoLayout(videoRef);
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+
+	useFrameSampler(
+		videoRef,
+		{ enabled, intervalMs: 100, width: 480 },
+		(frame) => {
+			const canvas = canvasRef.current;
+			if (!canvas) return;
+
+			if (canvas.width !== frame.width) canvas.width = frame.width;
+			if (canvas.height !== frame.height) canvas.height = frame.height;
+			canvas
+				.getContext("2d")
+				?.putImageData(
+					computeFocusPeaking(frame, sensitivity, PEAKING_COLORS[color]),
+					0,
+					0,
+				);
+		},
+	);
+
+	if (!enabled || !layout) return null;
+
+	return (
+		<VideoContentFrame layout={layout}>
+			<canvas ref={canvasRef} className="h-full w-full" />
+		</VideoContentFrame>
+	);
+}
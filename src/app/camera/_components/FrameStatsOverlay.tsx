@@ -0,0 +1,136 @@
+"use client";
+
+import { type FrameStats, useFrameStats } from "@bc/lib/useFrameStats";
+import { type RefObject, useEffect, useRef } from "react";
+
+const WIDTH = 180;
+const HEIGHT = 48;
+
+function drawIntervals(
+	canvas: HTMLCanvasElement,
+	stats: FrameStats,
+	targetIntervalMs?: number,
+) {
+	const context = canvas.getContext("2d");
+	if (!context) return;
+
+	context.clearRect(0, 0, WIDTH, HEIGHT);
+
+	// Leave headroom above the slowest frame and the target line
+	const scale =
+		HEIGHT / (Math.max(targetIntervalMs ?? 0, ...stats.intervals) * 1.25);
+	const barWidth = WIDTH / Math.max(stats.intervals.length, 1);
+
+	stats.intervals.forEach((interval, i) => {
+		// Frames that took over half again the mean interval stand out
+		context.fillStyle =
+			interval > stats.meanIntervalMs * 1.5
+				? "rgba(248, 113, 113, 0.9)"
+				: "rgba(96, 165, 250, 0.8)";
+		const height = interval * scale;
+		context.fillRect(i * barWidth, HEIGHT - height, barWidth, height);
+	});
+
+	if (targetIntervalMs) {
+		const y = Math.round(HEIGHT - targetIntervalMs * scale) + 0.5;
+		context.strokeStyle = "rgba(255, 255, 255, 0.6)";
+		context.setLineDash([3, 3]);
+		context.beginPath();
+		context.moveTo(0, y);
+		context.lineTo(WIDTH, y);
+		context.stroke();
+		context.setLineDash([]);
+	}
+}
+
+interface FrameStatsOverlayProps {
+	videoRef: RefObject<HTMLVideoElement | null>;
+	/** Frame rate the app asked the camera for */
+	requestedFrameRate?: number;
+	/** Manual exposure time in milliseconds, if set */
+	exposureTime?: number;
+	className?: string;
+}
+
+export function FrameStatsOverlay({
+	videoRef,
+	requestedFrameRate,
+	exposureTime,
+	className = "",
+}: FrameStatsOverlayProps) {
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+	const { stats, support } = useFrameStats(videoRef, true);
+
+	const targetIntervalMs = requestedFrameRate
+		? 1000 / requestedFrameRate
+		: undefined;
+	// A frame cannot be shorter than its exposure
+	const exposureCap = exposureTime ? 1000 / exposureTime : undefined;
+
+	useEffect(() => {
+		if (stats && canvasRef.current) {
+			drawIntervals(canvasRef.current, stats, targetIntervalMs);
+		}
+	}, [stats, targetIntervalMs]);
+
+	return (
+		<div
+			className={`pointer-events-none flex w-48 flex-col gap-1 rounded-lg bg-black/60 p-2 font-mono text-[10px] text-white/80 backdrop-blur-sm ${className}`}
+		>
+			{support === "unsupported" ? (
+				<span>Frame timing unavailable in this browser</span>
+			) : !stats ? (
+				<span>Measuring…</span>
+			) : (
+				<>
+					<div className="flex items-baseline justify-between">
+						<span
+							className={`font-semibold text-sm ${
+								requestedFrameRate && stats.fps < requestedFrameRate * 0.9
+									? "text-yellow-400"
+									: "text-white"
+							}`}
+						>
+							{stats.fps.toFixed(1)} fps
+						</span>
+						{requestedFrameRate && (
+							<span>req {Math.round(requestedFrameRate)}</span>
+						)}
+					</div>
+					<canvas
+						ref={canvasRef}
+						width={WIDTH}
+						height={HEIGHT}
+						className="h-12 w-full"
+					/>
+					<div className="flex justify-between">
+						<span>{stats.meanIntervalMs.toFixed(1)} ms</span>
+						<span>±{stats.jitterMs.toFixed(1)} ms</span>
+					</div>
+					<div className="flex justify-between">
+						<span>{stats.presentedFrames} shown</span>
+						<span className={stats.droppedFrames > 0 ? "text-red-400" : ""}>
+							{stats.droppedFrames} dropped
+						</span>
+					</div>
+					<div className="flex justify-between">
+						<span>
+							{stats.width}×{stats.height}
+						</span>
+						{exposureCap && (
+							<span
+								className={
+									requestedFrameRate && exposureCap < requestedFrameRate
+										? "text-yellow-400"
+										: ""
+								}
+							>
+								≤{exposureCap.toFixed(0)} fps exp
+							</span>
+						)}
+					</div>
+				</>
+			)}
+		</div>
+	);
+}
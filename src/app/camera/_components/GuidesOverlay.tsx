@@ -0,0 +1,168 @@
+"use client";
+
+import { useVideoLayout } from "@bc/lib/useVideoLayout";
+import type { RefObject } from "react";
+import { VideoContentFrame } from "./VideoContentFrame";
+
+export type CompositionGuide =
+	| "thirds"
+	| "phi"
+	| "center"
+	| "diagonals"
+	| "safeAreas";
+
+export const COMPOSITION_GUIDES: { guide: CompositionGuide; label: string }[] =
+	[
+		{ guide: "thirds", label: "Thirds" },
+		{ guide: "phi", label: "Phi Grid" },
+		{ guide: "center", label: "Center" },
+		{ guide: "diagonals", label: "Diagonals" },
+		{ guide: "safeAreas", label: "Safe Areas" },
+	];
+
+export const CROP_MARKS: { label: string; ratio: number }[] = [
+	{ label: "2.39:1", ratio: 2.39 },
+	{ label: "1.85:1", ratio: 1.85 },
+	{ label: "1:1", ratio: 1 },
+	{ label: "4:5", ratio: 4 / 5 },
+	{ label: "9:16", ratio: 9 / 16 },
+];
+
+// Golden ratio grid lines, as fractions of the frame
+const PHI_LINES = [1 - 1 / 1.618, 1 / 1.618];
+
+// SMPTE ST 2046-1 safe areas, as fractions of the frame
+const ACTION_SAFE = 0.93;
+const TITLE_SAFE = 0.9;
+
+const LINE_PROPS = {
+	stroke: "white",
+	strokeOpacity: 0.6,
+	strokeWidth: 1,
+	vectorEffect: "non-scaling-stroke",
+} as const;
+
+function GridLines({ fractions }: { fractions: number[] }) {
+	return (
+		<>
+			{fractions.map((f) => (
+				<g key={f}>
+					<line x1={f * 100} y1={0} x2={f * 100} y2={100} {...LINE_PROPS} />
+					<line x1={0} y1={f * 100} x2={100} y2={f * 100} {...LINE_PROPS} />
+				</g>
+			))}
+		</>
+	);
+}
+
+function SafeArea({
+	fraction,
+	dashed,
+}: { fraction: number; dashed?: boolean }) {
+	const inset = ((1 - fraction) / 2) * 100;
+	return (
+		<rect
+			x={inset}
+			y={inset}
+			width={100 - 2 * inset}
+			height={100 - 2 * inset}
+			fill="none"
+			strokeDasharray={dashed ? "4 4" : undefined}
+			{...LINE_PROPS}
+		/>
+	);
+}
+
+/**
+ * Size of a crop of the given ratio centered in the frame
+ * @returns { width: number; height: number } - Percent of the frame size
+ */
+function getCropSize(frameRatio: number, cropRatio: number) {
+	return cropRatio < frameRatio
+		? { width: (cropRatio / frameRatio) * 100, height: 100 }
+		: { width: 100, height: (frameRatio / cropRatio) * 100 };
+}
+
+interface GuidesOverlayProps {
+	videoRef: RefObject<HTMLVideoElement | null>;
+	guides: CompositionGuide[];
+	/** Aspect ratios to mark inside the current frame */
+	cropMarks: number[];
+}
+
+export function GuidesOverlay({
+	videoRef,
+	guides,
+	cropMarks,
+}: GuidesOverlayProps) {
+	const layout = useVideoLayout(videoRef);
+
+	if (!layout || (guides.length === 0 && cropMarks.length === 0)) return null;
+
+	const frameRatio = layout.content.width / layout.content.height;
+
+	return (
+		<VideoContentFrame layout={layout}>
+			<svg
+				className="h-full w-full"
+				viewBox="0 0 100 100"
+				preserveAspectRatio="none"
+				aria-hidden="true"
+			>
+				{cropMarks.map((ratio) => {
+					const { width, height } = getCropSize(frameRatio, ratio);
+					const x = (100 - width) / 2;
+					const y = (100 - height) / 2;
+					return (
+						<g key={ratio}>
+							{/* Dim the area outside the crop */}
+							<path
+								d={`M0 0H100V100H0Z M${x} ${y}V${y + height}H${x + width}V${y}Z`}
+								fill="black"
+								fillOpacity={0.35}
+								fillRule="evenodd"
+							/>
+							<rect
+								x={x}
+								y={y}
+								width={width}
+								height={height}
+								fill="none"
+								{...LINE_PROPS}
+								stroke="#facc15"
+								strokeOpacity={0.8}
+							/>
+						</g>
+					);
+				})}
+
+				{guides.includes("thirds") && <GridLines fractions={[1 / 3, 2 / 3]} />}
+				{guides.includes("phi") && <GridLines fractions={PHI_LINES} />}
+				{guides.includes("diagonals") && (
+					<>
+						<line x1={0} y1={0} x2={100} y2={100} {...LINE_PROPS} />
+						<line x1={100} y1={0} x2={0} y2={100} {...LINE_PROPS} />
+					</>
+				)}
+				{guides.includes("center") && (
+					<>
+						<line
+							x1={50 - 3 / frameRatio}
+							y1={50}
+							x2={50 + 3 / frameRatio}
+							y2={50}
+							{...LINE_PROPS}
+						/>
+						<line x1={50} y1={47} x2={50} y2={53} {...LINE_PROPS} />
+					</>
+				)}
+				{guides.includes("safeAreas") && (
+					<>
+						<SafeArea fraction={ACTION_SAFE} />
+						<SafeArea fraction={TITLE_SAFE} dashed />
+					</>
+				)}
+			</svg>
+		</VideoContentFrame>
+	);
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { type Histogram, computeHistogram } from "@bc/lib/frameAnalysis";
+import { useFrameSampler } from "@bc/lib/useFrameSampler";
+import { type RefObject, useRef, useState } from "react";
+
+const WIDTH = 256;
+const HEIGHT = 96;
+
+function drawChannel(
+	context: CanvasRenderingContext2D,
+	bins: Uint32Array,
+	peak: number,
+	color: string,
+) {
+	context.fillStyle = color;
+	context.beginPath();
+	context.moveTo(0, HEIGHT);
+	for (let i = 0; i < 256; i++) {
+		const value = Math.min(1, (bins[i] ?? 0) / peak);
+		context.lineTo(i, HEIGHT - value * HEIGHT);
+	}
+	context.lineTo(WIDTH, HEIGHT);
+	context.closePath();
+	context.fill();
+}
+
+function drawHistogram(canvas: HTMLCanvasElement, histogram: Histogram) {
+	const context = canvas.getContext("2d");
+	if (!context) return;
+
+	// Scale to the tallest bin, ignoring the clipped end bins so a blown sky
+	// does not flatten the rest of the graph
+	let peak = 1;
+	for (const bins of [histogram.red, histogram.green, histogram.blue]) {
+		for (let i = 1; i < 255; i++) peak = Math.max(peak, bins[i] ?? 0);
+	}
+
+	context.clearRect(0, 0, WIDTH, HEIGHT);
+
+	context.globalCompositeOperation = "lighter";
+	drawChannel(context, histogram.red, peak, "rgba(255, 60, 60, 0.6)");
+	drawChannel(context, histogram.green, peak, "rgba(60, 255, 60, 0.6)");
+	drawChannel(context, histogram.blue, peak, "rgba(60, 60, 255, 0.6)");
+	context.globalCompositeOperation = "source-over";
+
+	// Luma as an outline on top
+	context.strokeStyle = "rgba(255, 255, 255, 0.9)";
+	context.lineWidth = 1;
+	context.beginPath();
+	for (let i = 0; i < 256; i++) {
+		const value = Math.min(1, (histogram.luma[i] ?? 0) / peak);
+		const y = HEIGHT - value * HEIGHT;
+		if (i === 0) context.moveTo(i, y);
+		else context.lineTo(i, y);
+	}
+	context.stroke();
+
+	// Quarter grid lines
+	context.strokeStyle = "rgba(255, 255, 255, 0.15)";
+	for (const x of [64, 128, 192]) {
+		context.beginPath();
+		context.moveTo(x + 0.5, 0);
+		context.lineTo(x + 0.5, HEIGHT);
+		context.stroke();
+	}
+}
+
+function formatPercent(value: number): string {
+	return value >= 10 ? value.toFixed(0) : value.toFixed(1);
+}
+
+interface HistogramOverlayProps {
+	videoRef: RefObject<HTMLVideoElement | null>;
+	className?: string;
+}
+
+export function HistogramOverlay({
+	videoRef,
+	className = "",
+}: HistogramOverlayProps) {
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+	const [clipping, setClipping] = useState<Histogram | null>(null);
+
+	useFrameSampler(
+		videoRef,
+		{ enabled: true, intervalMs: 200, width: 240 },
+		(frame) => {
+			const histogram = computeHistogram(frame);
+			if (canvasRef.current) drawHistogram(canvasRef.current, histogram);
+			setClipping(histogram);
+		},
+	);
+
+	return (
+		<div
+			className={`pointer-events-none flex w-52 flex-col gap-1 rounded-lg bg-black/60 p-2 backdrop-blur-sm ${className}`}
+		>
+			<canvas
+				ref={canvasRef}
+				width={WIDTH}
+				height={HEIGHT}
+				className="h-20 w-full"
+			/>
+			{clipping && (
+				<div className="flex justify-between font-mono text-[10px] text-white/80">
+					<span className={clipping.clippedShadows > 1 ? "text-blue-400" : ""}>
+						▼{formatPercent(clipping.clippedShadows)}%
+					</span>
+					<span className={clipping.clippedRed > 1 ? "text-red-400" : ""}>
+						R{formatPercent(clipping.clippedRed)}
+					</span>
+					<span className={clipping.clippedGreen > 1 ? "text-green-400" : ""}>
+						G{formatPercent(clipping.clippedGreen)}
+					</span>
+					<span className={clipping.clippedBlue > 1 ? "text-blue-400" : ""}>
+						B{formatPercent(clipping.clippedBlue)}
+					</span>
+					<span
+						className={clipping.clippedHighlights > 1 ? "text-red-400" : ""}
+					>
+						▲{formatPercent(clipping.clippedHighlights)}%
+					</span>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import type { DeviceLevel } from "@bc/lib/useDeviceLevel";
+import { useVideoLayout } from "@bc/lib/useVideoLayout";
+import type { RefObject } from "react";
+import { VideoContentFrame } from "./VideoContentFrame";
+
+// Within this many degrees the device counts as level
+const LEVEL_TOLERANCE = 0.5;
+// Tilt that moves the bubble to the edge of the vial
+const BUBBLE_RANGE = 10;
+
+interface LevelOverlayProps {
+	videoRef: RefObject<HTMLVideoElement | null>;
+	level: DeviceLevel;
+}
+
+export function LevelOverlay({ videoRef, level }: LevelOverlayProps) {
+	const layout = useVideoLayout(videoRef);
+
+	if (!layout) return null;
+
+	const rollLevel = Math.abs(level.roll) < LEVEL_TOLERANCE;
+	const pitchLevel = Math.abs(level.pitch) < LEVEL_TOLERANCE;
+	// Snap to exactly level inside the tolerance so the line stops jittering
+	const roll = rollLevel ? 0 : level.roll;
+	const pitch = pitchLevel ? 0 : level.pitch;
+	const clamp = (value: number) =>
+		Math.max(-1, Math.min(1, value / BUBBLE_RANGE));
+
+	return (
+		<VideoContentFrame layout={layout}>
+			<div className="absolute inset-0 flex items-center justify-center">
+				{/* Horizon line */}
+				<div
+					className={`absolute h-0.5 w-1/2 transition-colors ${
+						rollLevel ? "bg-green-400" : "bg-white/70"
+					}`}
+					style={{ transform: `rotate(${roll}deg)` }}
+				/>
+				{/* Fixed reference ticks */}
+				<div className="absolute flex w-2/3 justify-between">
+					<div className="h-0.5 w-4 bg-white/50" />
+					<div className="h-0.5 w-4 bg-white/50" />
+				</div>
+
+				{/* Bubble level */}
+				<div className="absolute top-4 right-4 h-16 w-16 rounded-full border border-white/50 bg-black/30">
+					<div className="-translate-x-1/2 -translate-y-1/2 absolute top-1/2 left-1/2 h-5 w-5 rounded-full border border-white/40" />
+					<div
+						className={`absolute top-1/2 left-1/2 h-4 w-4 rounded-full transition-colors ${
+							rollLevel && pitchLevel ? "bg-green-400" : "bg-yellow-300/80"
+						}`}
+						style={{
+							transform: `translate(-50%, -50%) translate(${
+								-clamp(roll) * 24
+							}px, ${clamp(pitch) * 24}px)`,
+						}}
+					/>
+				</div>
+				<span
+					className={`absolute top-22 right-4 font-mono text-[10px] ${
+						rollLevel && pitchLevel ? "text-green-400" : "text-white/80"
+					}`}
+				>
+					{roll.toFixed(1)}° / {pitch.toFixed(1)}°
+				</span>
+			</div>
+		</VideoContentFrame>
+	);
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import {
+	WAVEFORM_LEVELS,
+	computeVectorscope,
+	computeWaveform,
+	getVectorscopePoint,
+} from "@bc/lib/frameAnalysis";
+import { useFrameSampler } from "@bc/lib/useFrameSampler";
+import { type RefObject, useRef, useState } from "react";
+
+type Scope = "waveform" | "parade" | "vectorscope";
+
+const SCOPES: { scope: Scope; label: string }[] = [
+	{ scope: "waveform", label: "Waveform" },
+	{ scope: "parade", label: "Parade" },
+	{ scope: "vectorscope", label: "Vector" },
+];
+
+const VECTORSCOPE_SIZE = 192;
+
+// 75% color bar targets, labelled like a hardware vectorscope
+const VECTORSCOPE_TARGETS: { label: string; rgb: [number, number, number] }[] =
+	[
+		{ label: "R", rgb: [191, 0, 0] },
+		{ label: "Mg", rgb: [191, 0, 191] },
+		{ label: "B", rgb: [0, 0, 191] },
+		{ label: "Cy", rgb: [0, 191, 191] },
+		{ label: "G", rgb: [0, 191, 0] },
+		{ label: "Yl", rgb: [191, 191, 0] },
+	];
+
+function drawWaveform(
+	canvas: HTMLCanvasElement,
+	frame: ImageData,
+	parade: boolean,
+) {
+	const scope = computeWaveform(frame, parade ? "parade" : "luma");
+	if (canvas.width !== scope.width) canvas.width = scope.width;
+	if (canvas.height !== WAVEFORM_LEVELS) canvas.height = WAVEFORM_LEVELS;
+
+	const context = canvas.getContext("2d");
+	if (!context) return;
+	context.putImageData(scope, 0, 0);
+
+	// Graticule at 0, 25, 50, 75 and 100%
+	context.strokeStyle = "rgba(255, 255, 255, 0.2)";
+	context.lineWidth = 1;
+	for (const level of [0, 0.25, 0.5, 0.75, 1]) {
+		const y = Math.round((1 - level) * (WAVEFORM_LEVELS - 1)) + 0.5;
+		context.beginPath();
+		context.moveTo(0, y);
+		context.lineTo(scope.width, y);
+		context.stroke();
+	}
+
+	if (parade) {
+		for (const x of [frame.width, frame.width * 2]) {
+			context.beginPath();
+			context.moveTo(x + 0.5, 0);
+			context.lineTo(x + 0.5, WAVEFORM_LEVELS);
+			context.stroke();
+		}
+	}
+}
+
+function drawVectorscope(canvas: HTMLCanvasElement, frame: ImageData) {
+	const size = VECTORSCOPE_SIZE;
+	const radius = size / 2;
+	const context = canvas.getContext("2d");
+	if (!context) return;
+
+	context.putImageData(computeVectorscope(frame, size), 0, 0);
+
+	context.strokeStyle = "rgba(255, 255, 255, 0.2)";
+	context.lineWidth = 1;
+	context.beginPath();
+	context.arc(radius, radius, radius - 1, 0, Math.PI * 2);
+	context.moveTo(0, radius);
+	context.lineTo(size, radius);
+	context.moveTo(radius, 0);
+	context.lineTo(radius, size);
+	context.stroke();
+
+	// Skin tone line: skin of every complexion falls close to it
+	const skin = getVectorscopePoint(224, 172, 150);
+	const length = Math.hypot(skin.x, skin.y);
+	context.strokeStyle = "rgba(255, 180, 120, 0.5)";
+	context.beginPath();
+	context.moveTo(radius, radius);
+	context.lineTo(
+		radius + (skin.x / length) * radius,
+		radius - (skin.y / length) * radius,
+	);
+	context.stroke();
+
+	context.font = "9px monospace";
+	context.fillStyle = "rgba(255, 255, 255, 0.6)";
+	context.strokeStyle = "rgba(255, 255, 255, 0.5)";
+	for (const { label, rgb } of VECTORSCOPE_TARGETS) {
+		const point = getVectorscopePoint(...rgb);
+		const x = radius + point.x * radius;
+		const y = radius - point.y * radius;
+		context.strokeRect(x - 4, y - 4, 8, 8);
+		context.fillText(label, x + 6, y + 3);
+	}
+}
+
+interface ScopesPanelProps {
+	videoRef: RefObject<HTMLVideoElement | null>;
+	className?: string;
+}
+
+export function ScopesPanel({ videoRef, className = "" }: ScopesPanelProps) {
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+	const [expanded, setExpanded] = useState(false);
+	const [scope, setScope] = useState<Scope>("waveform");
+
+	useFrameSampler(
+		videoRef,
+		{
+			enabled: expanded,
+			intervalMs: 150,
+			width: scope === "parade" ? 128 : 256,
+		},
+		(frame) => {
+			const canvas = canvasRef.current;
+			if (!canvas) return;
+
+			if (scope === "vectorscope") {
+				drawVectorscope(canvas, frame);
+			} else {
+				drawWaveform(canvas, frame, scope === "parade");
+			}
+		},
+	);
+
+	return (
+		<div
+			className={`z-50 flex flex-col gap-2 rounded-xl bg-black/80 p-2 text-white backdrop-blur-sm ${className}`}
+		>
+			<button
+				type="button"
+				onClick={() => setExpanded(!expanded)}
+				className="flex items-center justify-between gap-2 px-1 font-semibold text-xs"
+			>
+				<span>SCOPES</span>
+				<span className="text-white/60">{expanded ? "▾" : "▸"}</span>
+			</button>
+
+			{expanded && (
+				<>
+					<div className="flex gap-1">
+						{SCOPES.map(({ scope: value, label }) => (
+							<button
+								key={value}
+								type="button"
+								onClick={() => setScope(value)}
+								className={`rounded-md px-2 py-1 text-[10px] transition-colors ${
+									scope === value
+										? "bg-blue-600 font-semibold"
+										: "bg-white/10 hover:bg-white/20"
+								}`}
+							>
+								{label}
+							</button>
+						))}
+					</div>
+					{scope === "vectorscope" ? (
+						<canvas
+							key="vectorscope"
+							ref={canvasRef}
+							width={VECTORSCOPE_SIZE}
+							height={VECTORSCOPE_SIZE}
+							className="h-48 w-48 self-center rounded-md bg-black"
+						/>
+					) : (
+						<canvas
+							key="waveform"
+							ref={canvasRef}
+							className="h-32 w-64 rounded-md bg-black"
+						/>
+					)}
+				</>
+			)}
+		</div>
+	);
+}
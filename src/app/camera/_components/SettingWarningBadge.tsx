@@ -0,0 +1,46 @@
+"use client";
+
+import type { SettingsDiff } from "@bc/lib/camera";
+
+interface SettingWarningBadgeProps {
+	diff: SettingsDiff;
+	/** Settings behind the control, e.g. exposureTime and exposureMode */
+	fields: (keyof SettingsDiff)[];
+}
+
+/**
+ * Corner badge for a control whose value the camera ignored or rounded
+ */
+export function SettingWarningBadge({
+	diff,
+	fields,
+}: SettingWarningBadgeProps) {
+	const problems = fields.flatMap((field) => {
+		const difference = diff[field];
+		if (!difference || difference.status === "applied") return [];
+		return [
+			difference.status === "ignored"
+				? `${field}: ${String(difference.requested)} ignored${
+						difference.actual !== undefined
+							? ` (camera reports ${String(difference.actual)})`
+							: ""
+					}`
+				: `${field}: ${String(difference.requested)} → ${String(difference.actual)}`,
+		];
+	});
+	if (problems.length === 0) return null;
+
+	const ignored = fields.some((field) => diff[field]?.status === "ignored");
+
+	return (
+		<span
+			title={problems.join("\n")}
+			aria-label={problems.join(", ")}
+			className={`-right-1 -top-1 absolute flex h-4 w-4 items-center justify-center rounded-full font-bold text-[10px] text-black ${
+				ignored ? "bg-red-400" : "bg-yellow-400"
+			}`}
+		>
+			!
+		</span>
+	);
+}
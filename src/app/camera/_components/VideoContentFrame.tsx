@@ -0,0 +1,44 @@
+"use client";
+
+import type { VideoLayout } from "@bc/lib/videoGeometry";
+import type { ReactNode } from "react";
+
+interface VideoContentFrameProps {
+	layout: VideoLayout;
+	children: ReactNode;
+}
+
+/**
+ * Position children over the rendered video picture
+ *
+ * Children fill the picture rectangle and are clipped to the element box,
+ * so they line up with the preview whatever its `object-fit`.
+ */
+export function VideoContentFrame({
+	layout,
+	children,
+}: VideoContentFrameProps) {
+	return (
+		<div
+			className="pointer-events-none absolute overflow-hidden"
+			style={{
+				left: layout.box.x,
+				top: layout.box.y,
+				width: layout.box.width,
+				height: layout.box.height,
+			}}
+		>
+			<div
+				className="absolute"
+				style={{
+					left: layout.content.x,
+					top: layout.content.y,
+					width: layout.content.width,
+					height: layout.content.height,
+				}}
+			>
+				{children}
+			</div>
+		</div>
+	);
+}
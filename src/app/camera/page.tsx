@@ -1,18 +1,98 @@
 "use client";
 
-import { useEffect, useRef, useState, useCallback, useTransition } from "react";
+import Link from "next/link";
+import {
+  useEffect,
+  useRef,
+  useState,
+  useCallback,
+  useMemo,
+  useTransition,
+} from "react";
 import {
   type CameraCapabilities,
-  type CameraDevice,
   type CameraSettings,
-  applySettingsToStream,
+  type CaptureResult,
+  type ImageFormat,
+  type ImageFormatInfo,
+  type Resolution,
   capturePhoto,
-  getCameraCapabilities,
-  listCameras,
-  startCamera,
-  stopCamera,
+  getCaptureFileName,
+  getImageExtension,
+  getPhotoCapabilities,
+  getSettingOptions,
+  getSupportedImageFormats,
+  normalizeValue,
 } from "@bc/lib/camera";
+import {
+  type DeepLink,
+  buildDeepLinkQuery,
+  parseDeepLink,
+  resolveLens,
+} from "@bc/lib/deepLink";
+import { downloadBlob } from "@bc/lib/download";
+import { FALSE_COLOR_BANDS } from "@bc/lib/frameAnalysis";
+import {
+  exportCapturesAsZip,
+  getSessionId,
+  listSessionCaptures,
+  saveCapture,
+} from "@bc/lib/gallery";
+import {
+  type Recording,
+  type RecordingFormat,
+  type RecordingResult,
+  RECORDING_BITRATES,
+  formatRecordingTime,
+  getRecordingExtension,
+  getSupportedRecordingFormats,
+  startRecording,
+} from "@bc/lib/recorder";
+import {
+  describeShareResult,
+  formatSettingsSummary,
+  shareFile,
+} from "@bc/lib/share";
+import {
+  type SettingsPreset,
+  deletePreset,
+  fitPresetSettings,
+  listPresets,
+  savePreset,
+} from "@bc/lib/presets";
+import { throttle } from "@bc/lib/throttle";
+import { useCamera } from "@bc/lib/useCamera";
+import { useCameraDevices } from "@bc/lib/useCameraDevices";
+import { useDeviceLevel } from "@bc/lib/useDeviceLevel";
 import { useOrientation } from "@bc/lib/useOrientation";
+import { DOUBLE_TAP_MS, usePinchZoom } from "@bc/lib/usePinchZoom";
+import { clientToVideoPoint } from "@bc/lib/videoGeometry";
+import {
+  getNextZoomPreset,
+  getZoomPresets,
+  rampZoom,
+  snapZoom,
+} from "@bc/lib/zoom";
+import {
+  ExposureOverlay,
+  type ExposureOverlayMode,
+} from "./_components/ExposureOverlay";
+import {
+  FocusPeakingOverlay,
+  PEAKING_COLORS,
+  type PeakingColor,
+} from "./_components/FocusPeakingOverlay";
+import {
+  COMPOSITION_GUIDES,
+  CROP_MARKS,
+  type CompositionGuide,
+  GuidesOverlay,
+} from "./_components/GuidesOverlay";
+import { FrameStatsOverlay } from "./_components/FrameStatsOverlay";
+import { HistogramOverlay } from "./_components/HistogramOverlay";
+import { SettingWarningBadge } from "./_components/SettingWarningBadge";
+import { LevelOverlay } from "./_components/LevelOverlay";
+import { ScopesPanel } from "./_components/ScopesPanel";
 import { ca } from "zod/v4/locales";
 
 type ActiveControl =
@@ -26,8 +106,20 @@ type ActiveControl =
   | "torch"
   | "aspectRatio"
   | "lens"
+  | "recording"
+  | "photoFormat"
+  | "exposureOverlay"
+  | "guides"
+  | "presets"
   | null;
 
+// Minimum time between zoom constraint updates during gestures and ramps
+const ZOOM_APPLY_INTERVAL_MS = 80;
+
+const ZOOM_RAMP_DURATIONS = [500, 1000, 2000, 4000];
+
+type CaptureMode = "photo" | "video";
+
 // PWA install types - disabled for now
 // interface BeforeInstallPromptEvent extends Event {
 // 	prompt: () => Promise<void>;
@@ -72,66 +164,198 @@ function getAspectRatio(width: number, height: number): string {
   return `${w}:${h}`;
 }
 
-function getAvailableResolutions(
-  capabilities: CameraCapabilities | null,
+function getResolutionsForRatio(
+  resolutions: Resolution[],
   targetAspectRatio: number
-): Array<{ width: number; height: number; label: string }> {
-  if (!capabilities?.width || !capabilities?.height) return [];
-
-  const resolutions = [];
-  const minWidth = capabilities.width.min;
-  const maxWidth = capabilities.width.max;
-  const minHeight = capabilities.height.min;
-  const maxHeight = capabilities.height.max;
-
-  // Generate resolutions that match the target aspect ratio
-  for (let width = minWidth; width <= maxWidth; width += 160) {
-    const height = Math.round(width / targetAspectRatio);
-    if (height >= minHeight && height <= maxHeight) {
-      resolutions.push({
-        width,
-        height,
-        label: `${width}×${height}`,
-      });
-    }
-  }
-
-  // Remove duplicates and sort by resolution
-  const unique = resolutions.filter(
-    (res, index, arr) =>
-      arr.findIndex((r) => r.width === res.width && r.height === res.height) ===
-      index
+): Resolution[] {
+  // Compare landscape ratios, portrait streams report swapped dimensions
+  return resolutions.filter(
+    ({ width, height }) =>
+      Math.abs(
+        Math.max(width, height) / Math.min(width, height) - targetAspectRatio
+      ) < 0.01
   );
-
-  return unique.sort((a, b) => b.width * b.height - a.width * a.height);
 }
 
 export default function CameraPage() {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const [stream, setStream] = useState<MediaStream | null>(null);
-  const [cameras, setCameras] = useState<CameraDevice[]>([]);
-  const [selectedCamera, setSelectedCamera] = useState<string>("");
-  const [capabilities, setCapabilities] = useState<CameraCapabilities | null>(
+  // The video element is unmounted while loading, so gesture listeners
+  // follow it through state rather than the ref
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(
     null
   );
-  const [settings, setSettings] = useState<CameraSettings>({});
-  const [isLoading, setIsLoading] = useState(true);
+  const setVideoRef = useCallback((element: HTMLVideoElement | null) => {
+    videoRef.current = element;
+    setVideoElement(element);
+  }, []);
+  const { devices: cameras, isLoading: isLoadingCameras } = useCameraDevices();
+  const [selectedCamera, setSelectedCamera] = useState<string>("");
   const [error, setError] = useState<string>("");
   const [errorDetails, setErrorDetails] = useState<string>("");
-  const [capturedImage, setCapturedImage] = useState<string>("");
+  const [capturedImage, setCapturedImage] = useState<
+    (CaptureResult & { url: string }) | null
+  >(null);
+  const [imageFormats, setImageFormats] = useState<ImageFormatInfo[]>([]);
+  const [captureFormat, setCaptureFormat] = useState<ImageFormat>("image/jpeg");
+  const [captureQuality, setCaptureQuality] = useState(0.92);
+  const [lastThumbnailUrl, setLastThumbnailUrl] = useState<string>("");
+  const pendingSaveRef = useRef<Promise<unknown>>(Promise.resolve());
+  const [isExporting, setIsExporting] = useState(false);
+  const [shareMessage, setShareMessage] = useState<string>("");
+  const [showHistogram, setShowHistogram] = useState(false);
+  const [showFrameStats, setShowFrameStats] = useState(false);
+  const [exposureOverlay, setExposureOverlay] =
+    useState<ExposureOverlayMode>("off");
+  const [zebraThreshold, setZebraThreshold] = useState(95);
+  const [focusPeaking, setFocusPeaking] = useState(false);
+  const [peakingColor, setPeakingColor] = useState<PeakingColor>("red");
+  const [peakingSensitivity, setPeakingSensitivity] = useState(0.5);
+  const [guides, setGuides] = useState<CompositionGuide[]>([]);
+  const [cropMarks, setCropMarks] = useState<number[]>([]);
+  const [showLevel, setShowLevel] = useState(false);
+  const [smoothZoom, setSmoothZoom] = useState(false);
+  const [zoomRampDuration, setZoomRampDuration] = useState(1000);
+  // Latest zoom asked for, ahead of the throttled settings update
+  const zoomTargetRef = useRef<number | null>(null);
+  const cancelZoomRampRef = useRef<(() => void) | null>(null);
+  const lastFocusTapRef = useRef(0);
+  const tapPointerRef = useRef<number | null>(null);
+  const [presets, setPresets] = useState<SettingsPreset[]>([]);
+  const [presetName, setPresetName] = useState("");
+  const [presetWarnings, setPresetWarnings] = useState<string[]>([]);
+  // Settings from a shared link, applied when the first camera starts
+  const pendingLinkRef = useRef<DeepLink | null>(null);
+  const [linkErrors, setLinkErrors] = useState<string[]>([]);
+  const [focusReticle, setFocusReticle] = useState<{
+    x: number;
+    y: number;
+    id: number;
+  } | null>(null);
+  const [photoCapabilities, setPhotoCapabilities] =
+    useState<PhotoCapabilities | null>(null);
+  const [fillLightMode, setFillLightMode] = useState<FillLightMode>("off");
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [captureMode, setCaptureMode] = useState<CaptureMode>("photo");
+  const [recordingFormats, setRecordingFormats] = useState<RecordingFormat[]>(
+    []
+  );
+  const [recordingMimeType, setRecordingMimeType] = useState<string>("");
+  const [recordingBitrate, setRecordingBitrate] = useState<number>(
+    RECORDING_BITRATES[3]?.videoBitsPerSecond ?? 8_000_000
+  );
+  const recordingRef = useRef<Recording | null>(null);
+  const [recordingState, setRecordingState] =
+    useState<RecordingState>("inactive");
+  const [recordingElapsed, setRecordingElapsed] = useState(0);
+  const [recordedVideo, setRecordedVideo] = useState<
+    (RecordingResult & { url: string }) | null
+  >(null);
   const [activeControl, setActiveControl] = useState<ActiveControl>(null);
   const [isPending, startTransition] = useTransition();
   const isLandscape = useOrientation();
+  const {
+    level,
+    permission: levelPermission,
+    requestPermission: requestLevelPermission,
+  } = useDeviceLevel(showLevel);
+  const activeGuideCount =
+    guides.length + cropMarks.length + (showLevel ? 1 : 0);
   const [isIOS, setIsIOS] = useState(false);
   const [selectedAspectRatio, setSelectedAspectRatio] = useState<number>(
     16 / 9
   ); // Default to 16:9
+  /**
+   * Default settings for a freshly opened camera, overridden once by the
+   * settings from a shared link
+   * @param caps - Capabilities of the camera being opened
+   */
+  const getInitialSettings = (caps: CameraCapabilities): CameraSettings => {
+    const defaultSettings: CameraSettings = {};
+    if (caps.frameRate) {
+      defaultSettings.frameRate = caps.frameRate.max;
+    }
+    // Set aspect ratio directly
+    defaultSettings.aspectRatio = selectedAspectRatio;
+    // ISO is left undefined by default (auto mode)
+    // Set exposure mode to continuous by default (auto)
+    if (caps.exposureMode && caps.exposureMode.includes("continuous")) {
+      defaultSettings.exposureMode = "continuous";
+    } else if (caps.exposureMode && caps.exposureMode.length > 0) {
+      defaultSettings.exposureMode = caps.exposureMode[0];
+    }
+    // Set focus mode to continuous by default (auto)
+    if (caps.focusMode && caps.focusMode.includes("continuous")) {
+      defaultSettings.focusMode = "continuous";
+    } else if (caps.focusMode && caps.focusMode.length > 0) {
+      defaultSettings.focusMode = caps.focusMode[0];
+    }
+
+    const link = pendingLinkRef.current;
+    pendingLinkRef.current = null;
+    if (!link) return defaultSettings;
+
+    const requested = { ...defaultSettings, ...link.settings };
+    // A white balance from a link only sticks in manual mode
+    if (
+      link.settings.colorTemperature !== undefined &&
+      caps.whiteBalanceMode?.includes("manual")
+    ) {
+      requested.whiteBalanceMode = "manual";
+    }
+    const { settings: linkSettings, warnings } = fitPresetSettings(
+      requested,
+      caps
+    );
+    if (warnings.length > 0) {
+      setLinkErrors((prev) => [...prev, ...warnings]);
+    }
+    return linkSettings;
+  };
+
+  const {
+    controller,
+    status: cameraStatus,
+    stream,
+    capabilities,
+    settings,
+    diff: settingsDiff,
+    resolutions: verifiedResolutions,
+    error: cameraError,
+    apply: applySettings,
+    update: updateSettings,
+    focusAt,
+    restart: restartCamera,
+    retry: retryCamera,
+  } = useCamera({ deviceId: selectedCamera, settings: getInitialSettings });
+  const isLoading =
+    isLoadingCameras ||
+    (!selectedCamera && cameras.length > 0) ||
+    cameraStatus === "requesting" ||
+    cameraStatus === "starting";
+  const selectedRatioResolutions = getResolutionsForRatio(
+    verifiedResolutions,
+    selectedAspectRatio
+  );
 
   // Detect iOS for specific workarounds
   useEffect(() => {
     setIsIOS(/iPad|iPhone|iPod/.test(navigator.userAgent));
   }, []);
 
+  // Detect which still image formats this browser can encode
+  useEffect(() => {
+    void getSupportedImageFormats().then(setImageFormats);
+  }, []);
+
+  // Detect which recording formats this browser can encode
+  useEffect(() => {
+    const formats = getSupportedRecordingFormats();
+    setRecordingFormats(formats);
+    if (formats[0]) {
+      setRecordingMimeType(formats[0].mimeType);
+    }
+  }, []);
+
   // Handle orientation change with smooth transition
   useEffect(() => {
     startTransition(() => {
@@ -144,170 +368,43 @@ export default function CameraPage() {
   // const [deferredPrompt, setDeferredPrompt] = useState<BeforeInstallPromptEvent | null>(null);
   // const [isApplePlatform, setIsApplePlatform] = useState(false);
 
-  // Load available cameras on mount
+  // Read settings from a shared link before the first camera starts
   useEffect(() => {
-    async function loadCameras() {
-      try {
-        const cameraList = await listCameras();
-        setCameras(cameraList);
-        if (cameraList.length > 0 && cameraList[0]) {
-          setSelectedCamera(cameraList[0].deviceId);
-        }
-      } catch (err) {
-        setError("Failed to load cameras");
-        console.error(err);
-      } finally {
-        setIsLoading(false);
-      }
+    const { link, errors } = parseDeepLink(window.location.search);
+    setLinkErrors(errors);
+    if (link.lens || Object.keys(link.settings).length > 0) {
+      pendingLinkRef.current = link;
+    }
+    if (link.aspectRatio) {
+      setSelectedAspectRatio(link.aspectRatio);
     }
-    void loadCameras();
   }, []);
 
-  // Start camera when device is selected
+  // Start with the lens from a shared link, if it names one, and fall back to
+  // the first camera when the selected one is unplugged
   useEffect(() => {
-    if (!selectedCamera) return;
-
-    let mounted = true;
-    let timeoutId: NodeJS.Timeout;
-
-    async function initCamera() {
-      try {
-        setIsLoading(true);
-        setError("");
-
-        // Add a small delay to ensure proper camera initialization
-        await new Promise((resolve) => {
-          timeoutId = setTimeout(resolve, 100);
-        });
-
-        if (!mounted) return;
-
-        // Get capabilities first
-        const caps = await getCameraCapabilities(selectedCamera);
-        if (!mounted) return;
-
-        setCapabilities(caps);
-
-        // Set default settings based on capabilities
-        const defaultSettings: CameraSettings = {};
-        if (caps.frameRate) {
-          defaultSettings.frameRate = caps.frameRate.max;
-        }
-        // Set aspect ratio directly
-        defaultSettings.aspectRatio = selectedAspectRatio;
-        // ISO is left undefined by default (auto mode)
-        // Set exposure mode to continuous by default (auto)
-        if (caps.exposureMode && caps.exposureMode.includes("continuous")) {
-          defaultSettings.exposureMode = "continuous";
-        } else if (caps.exposureMode && caps.exposureMode.length > 0) {
-          defaultSettings.exposureMode = caps.exposureMode[0];
-        }
-        // Set focus mode to continuous by default (auto)
-        if (caps.focusMode && caps.focusMode.includes("continuous")) {
-          defaultSettings.focusMode = "continuous";
-        } else if (caps.focusMode && caps.focusMode.length > 0) {
-          defaultSettings.focusMode = caps.focusMode[0];
-        }
-        setSettings(defaultSettings);
-
-        // Start camera stream
-        const mediaStream = await startCamera(defaultSettings, selectedCamera);
-        if (!mounted) {
-          stopCamera(mediaStream);
-          return;
-        }
+    if (cameras.some((c) => c.deviceId === selectedCamera)) return;
 
-        setStream(mediaStream);
-
-        // Attach to video element with retry logic
-        if (videoRef.current) {
-          videoRef.current.srcObject = mediaStream;
-          // Force video to load and play
-          try {
-            videoRef.current.load(); // Force reload
-            await videoRef.current.play();
-          } catch (playErr) {
-            console.warn("Video play failed, trying again:", playErr);
-            // Retry after a short delay
-            setTimeout(async () => {
-              if (videoRef.current && mounted) {
-                try {
-                  videoRef.current.load(); // Force reload on retry
-                  await videoRef.current.play();
-                } catch (retryErr) {
-                  console.error("Video play retry failed:", retryErr);
-                }
-              }
-            }, 100);
-          }
-        }
-      } catch (err) {
-        if (mounted) {
-          const errorMessage =
-            err instanceof Error ? err.message : "Unknown error";
-          const errorName = err instanceof Error ? err.name : "Error";
-
-          if (errorName === "NotReadableError") {
-            setError("Camera is not accessible");
-            setErrorDetails(
-              "The camera might be in use by another application or not properly connected."
-            );
-          } else if (errorName === "NotAllowedError") {
-            setError("Camera access denied");
-            setErrorDetails(
-              "Please grant camera permissions to use this feature."
-            );
-          } else if (errorName === "NotFoundError") {
-            setError("No camera found");
-            setErrorDetails("Please connect a camera and try again.");
-          } else if (errorName === "OverconstrainedError") {
-            setError("Camera settings not supported");
-            setErrorDetails(
-              "The requested camera settings are not available on this device."
-            );
-          } else {
-            setError("Failed to start camera");
-            setErrorDetails(errorMessage);
-          }
-          console.error("Camera error:", err);
-        }
-      } finally {
-        if (mounted) {
-          setIsLoading(false);
-        }
-      }
+    const lens = pendingLinkRef.current?.lens;
+    const linkedCamera = lens ? resolveLens(lens, cameras) : undefined;
+    if (lens && !linkedCamera && cameras.length > 0) {
+      setLinkErrors((prev) => [...prev, `No camera matches lens=${lens}`]);
     }
 
-    void initCamera();
-
-    // Cleanup on unmount or camera change
-    return () => {
-      mounted = false;
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
-      if (stream) {
-        stopCamera(stream);
-      }
-    };
-  }, [selectedCamera]);
+    const initialCamera = linkedCamera ?? cameras[0];
+    if (initialCamera) {
+      setError("");
+      setErrorDetails("");
+      setSelectedCamera(initialCamera.deviceId);
+    }
+  }, [cameras, selectedCamera]);
 
-  // Restart camera on aspect ratio change for iOS
+  // Show camera errors in place of the preview
   useEffect(() => {
-    if (isIOS) {
-      if (stream) {
-        stopCamera(stream);
-        setStream(null);
-      }
-
-      const currentCamera = selectedCamera;
-      setSelectedCamera("");
-
-      setTimeout(() => {
-        setSelectedCamera(currentCamera);
-      }, 50);
-    }
-  }, [selectedAspectRatio, isIOS]);
+    if (!cameraError) return;
+    setError(cameraError.title);
+    setErrorDetails(cameraError.details);
+  }, [cameraError]);
 
   // Ensure video element displays the stream
   useEffect(() => {
@@ -321,157 +418,160 @@ export default function CameraPage() {
     }
   }, [stream]);
 
-  // Handle page visibility changes to resume video when returning from minimized state
+  // Query still photo capabilities whenever the stream changes
   useEffect(() => {
-    let isHandlingVisibilityChange = false;
+    if (!stream) {
+      setPhotoCapabilities(null);
+      return;
+    }
 
-    const handleVisibilityChange = async () => {
-      // Prevent multiple simultaneous visibility change handlers
-      if (
-        isHandlingVisibilityChange ||
-        document.hidden ||
-        !stream ||
-        !videoRef.current
-      ) {
-        return;
+    let cancelled = false;
+    void getPhotoCapabilities(stream).then((caps) => {
+      if (!cancelled) {
+        setPhotoCapabilities(caps);
       }
+    });
 
-      isHandlingVisibilityChange = true;
+    return () => {
+      cancelled = true;
+    };
+  }, [stream]);
 
-      try {
-        // Page became visible again
-        console.log("Page became visible, checking video stream...");
-
-        // Check if the stream is still active
-        const tracks = stream.getVideoTracks();
-        if (tracks.length > 0 && tracks[0]) {
-          const track = tracks[0];
-
-          // If track is ended or not ready, restart the camera
-          if (track.readyState === "ended" || !track.enabled) {
-            console.log("Video track ended, restarting camera...");
-
-            // Clean up the old stream
-            stopCamera(stream);
-            setStream(null);
-
-            // Restart the camera with current settings
-            try {
-              const newStream = await startCamera(settings, selectedCamera);
-              setStream(newStream);
-
-              if (videoRef.current) {
-                videoRef.current.srcObject = newStream;
-                // Wait a bit for the stream to be ready
-                await new Promise((resolve) => setTimeout(resolve, 100));
-                videoRef.current.load();
-                await videoRef.current.play();
-              }
-            } catch (err) {
-              console.error("Failed to restart camera:", err);
-              setError("Camera disconnected");
-              setErrorDetails("The camera was disconnected. Please try again.");
-            }
-          } else {
-            // Stream is still active, check if video is paused or needs restart
-            console.log("Checking video playback state...");
+  // Focus peaking follows the focus mode: on for manual focus, off for AF
+  useEffect(() => {
+    setFocusPeaking(settings.focusMode === "manual");
+  }, [settings.focusMode]);
+
+  // Presets are scoped to the device group, falling back to the camera label
+  const presetGroupId =
+    capabilities?.groupId ??
+    cameras.find((c) => c.deviceId === selectedCamera)?.groupId ??
+    "";
+  const presetLabel =
+    cameras.find((c) => c.deviceId === selectedCamera)?.label ?? "";
+  const presetDevice = useMemo(
+    () => ({ groupId: presetGroupId, label: presetLabel }),
+    [presetGroupId, presetLabel]
+  );
 
-            const video = videoRef.current;
+  // Load the presets saved for the selected camera
+  useEffect(() => {
+    setPresets(listPresets(presetDevice));
+    setPresetWarnings([]);
+  }, [presetDevice]);
 
-            // Check if video is paused, ended, or not playing
-            if (video.paused || video.ended || video.readyState < 2) {
-              console.log("Resuming video playback...");
+  // Keep the URL in sync with the settings so it can be shared at any time
+  useEffect(() => {
+    if (!stream || !selectedCamera || pendingLinkRef.current) return;
 
-              // Only reassign srcObject if it's different
-              if (video.srcObject !== stream) {
-                video.srcObject = stream;
-                await new Promise((resolve) => setTimeout(resolve, 50));
-              }
+    const query = buildDeepLinkQuery(
+      cameras,
+      selectedCamera,
+      settings,
+      selectedAspectRatio
+    );
+    window.history.replaceState(
+      null,
+      "",
+      `${window.location.pathname}${query}`
+    );
+  }, [stream, cameras, selectedCamera, settings, selectedAspectRatio]);
 
-              // Try to resume playback without loading if possible
-              try {
-                if (video.readyState >= 2) {
-                  // Video has enough data, just play
-                  await video.play();
-                } else {
-                  // Need to reload first
-                  video.load();
-                  await new Promise((resolve) => setTimeout(resolve, 100));
-                  await video.play();
-                }
-              } catch (playErr) {
-                console.warn(
-                  "Could not resume playback, restarting stream:",
-                  playErr
-                );
-
-                // Only restart if it's not an AbortError from overlapping requests
-                if (playErr instanceof Error && playErr.name !== "AbortError") {
-                  try {
-                    stopCamera(stream);
-                    setStream(null);
-
-                    const newStream = await startCamera(
-                      settings,
-                      selectedCamera
-                    );
-                    setStream(newStream);
-
-                    if (videoRef.current) {
-                      videoRef.current.srcObject = newStream;
-                      await new Promise((resolve) => setTimeout(resolve, 100));
-                      videoRef.current.load();
-                      await videoRef.current.play();
-                    }
-                  } catch (restartErr) {
-                    console.error(
-                      "Failed to restart camera after play failure:",
-                      restartErr
-                    );
-                  }
-                }
-              }
-            } else {
-              console.log("Video is already playing correctly");
-            }
-          }
-        }
-      } catch (err) {
-        console.error("Error handling visibility change:", err);
-      } finally {
-        isHandlingVisibilityChange = false;
+  // Tick the recording timer while recording
+  useEffect(() => {
+    if (recordingState !== "recording") return;
+
+    const intervalId = setInterval(() => {
+      setRecordingElapsed(recordingRef.current?.getElapsedMs() ?? 0);
+    }, 250);
+
+    return () => clearInterval(intervalId);
+  }, [recordingState]);
+
+  // Finish any running recording when the stream it records goes away
+  useEffect(() => {
+    if (!stream) return;
+    return () => {
+      if (recordingRef.current) {
+        void handleStopRecording();
       }
     };
+  }, [stream]);
 
-    // Add event listener for page visibility changes
-    document.addEventListener("visibilitychange", handleVisibilityChange);
+  // Release the captured image's object URL when it is dismissed
+  useEffect(() => {
+    if (!capturedImage) return;
+    return () => URL.revokeObjectURL(capturedImage.url);
+  }, [capturedImage]);
 
-    // Also handle window focus events as additional fallback
-    const handleFocus = () => {
-      if (!isHandlingVisibilityChange && stream && videoRef.current) {
-        // Small delay to ensure the page is fully focused
-        setTimeout(() => {
-          if (!isHandlingVisibilityChange) {
-            handleVisibilityChange();
-          }
-        }, 150);
+  // Hide the share status message after a moment
+  useEffect(() => {
+    if (!shareMessage) return;
+    const timeoutId = setTimeout(() => setShareMessage(""), 2500);
+    return () => clearTimeout(timeoutId);
+  }, [shareMessage]);
+
+  // Release the gallery button thumbnail when it is replaced
+  useEffect(() => {
+    if (!lastThumbnailUrl) return;
+    return () => URL.revokeObjectURL(lastThumbnailUrl);
+  }, [lastThumbnailUrl]);
+
+  // Release the recorded video's object URL when it is dismissed
+  useEffect(() => {
+    if (!recordedVideo) return;
+    return () => URL.revokeObjectURL(recordedVideo.url);
+  }, [recordedVideo]);
+
+  // Close the recorded video with Escape
+  useEffect(() => {
+    if (!recordedVideo) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setRecordedVideo(null);
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [recordedVideo]);
+
+  // Resume the preview when returning from a hidden or minimized page
+  useEffect(() => {
+    const handleVisibilityChange = async () => {
+      if (document.hidden) return;
+
+      // A track that ended while hidden needs a new stream
+      if (await controller.recover()) return;
+
+      const video = videoRef.current;
+      if (!video?.srcObject || !(video.paused || video.ended)) return;
+
+      try {
+        await video.play();
+      } catch (playErr) {
+        // AbortError only means another play() call took over
+        if (playErr instanceof Error && playErr.name !== "AbortError") {
+          console.warn(
+            "Could not resume playback, restarting stream:",
+            playErr
+          );
+          void restartCamera();
+        }
       }
     };
 
-    window.addEventListener("focus", handleFocus);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    // Window focus is a fallback for browsers that skip visibilitychange
+    window.addEventListener("focus", handleVisibilityChange);
 
     return () => {
       document.removeEventListener("visibilitychange", handleVisibilityChange);
-      window.removeEventListener("focus", handleFocus);
-      isHandlingVisibilityChange = false;
+      window.removeEventListener("focus", handleVisibilityChange);
     };
-  }, [stream, settings, selectedCamera]);
+  }, [controller, restartCamera]);
 
   const handleCameraChange = (deviceId: string) => {
-    if (stream) {
-      stopCamera(stream);
-      setStream(null);
-    }
+    // A newly selected camera starts without the previous camera's error
+    setError("");
+    setErrorDetails("");
     setSelectedCamera(deviceId);
   };
 
@@ -505,6 +605,14 @@ export default function CameraPage() {
       delete newSettings.exposureTime;
     }
 
+    // When color temperature is changed, switch to manual white balance
+    if (
+      key === "colorTemperature" &&
+      capabilities?.whiteBalanceMode?.includes("manual")
+    ) {
+      newSettings.whiteBalanceMode = "manual";
+    }
+
     // When focus distance is changed, automatically switch to manual focus mode
     if (
       key === "focusDistance" &&
@@ -513,30 +621,365 @@ export default function CameraPage() {
       newSettings.focusMode = "manual";
     }
 
-    // Update settings state immediately
-    setSettings(newSettings);
+    // The controller clamps and snaps the values to what the camera accepts
+    // and shows them immediately, then applies them without restarting
+    try {
+      await applySettings(newSettings);
+    } catch (err) {
+      console.error("Failed to apply settings to stream:", err);
+    }
+  };
+
+  // Throttled so pinches and ramps don't flood the track with constraints
+  const applyZoom = useMemo(
+    () =>
+      throttle(async (zoom: number) => {
+        try {
+          await updateSettings({ zoom });
+        } catch (err) {
+          console.error("Failed to apply zoom:", err);
+        }
+        // Once the target has landed, the settings are the current zoom
+        if (zoomTargetRef.current === zoom) {
+          zoomTargetRef.current = null;
+        }
+      }, ZOOM_APPLY_INTERVAL_MS),
+    [updateSettings]
+  );
+
+  /**
+   * Drop a pending zoom target, e.g. when the zoom is set some other way
+   */
+  const resetZoomTarget = useCallback(() => {
+    applyZoom.cancel();
+    cancelZoomRampRef.current?.();
+    cancelZoomRampRef.current = null;
+    zoomTargetRef.current = null;
+  }, [applyZoom]);
+
+  // A new stream or lens starts from its own zoom, not the last target
+  useEffect(() => {
+    if (!stream) return;
+    return resetZoomTarget;
+  }, [stream, resetZoomTarget]);
+
+  const getCurrentZoom = () =>
+    zoomTargetRef.current ?? settings.zoom ?? capabilities?.zoom?.min ?? 1;
+
+  /**
+   * Zoom to a level, ramping over the chosen duration when smooth zoom is on
+   * @param zoom - Target zoom level
+   * @param ramp - Whether this is a jump that may be smoothed (presets, reset)
+   */
+  const setZoom = (zoom: number, ramp = false) => {
+    const range = capabilities?.zoom;
+    if (!range) return;
+
+    cancelZoomRampRef.current?.();
+    cancelZoomRampRef.current = null;
+
+    const target = snapZoom(zoom, range);
+    if (ramp && smoothZoom) {
+      cancelZoomRampRef.current = rampZoom(
+        getCurrentZoom(),
+        target,
+        zoomRampDuration,
+        (value) => {
+          zoomTargetRef.current = value;
+          applyZoom(snapZoom(value, range));
+        }
+      );
+      return;
+    }
+
+    zoomTargetRef.current = target;
+    applyZoom(target);
+  };
+
+  usePinchZoom(videoElement, {
+    enabled: !!capabilities?.zoom,
+    getZoom: getCurrentZoom,
+    onZoom: (zoom) => setZoom(zoom),
+    onDoubleTap: () =>
+      capabilities?.zoom &&
+      setZoom(getNextZoomPreset(getCurrentZoom(), capabilities.zoom), true),
+  });
+
+  const handleResolutionChange = async (
+    ratio: number,
+    resolution?: Resolution
+  ) => {
+    setSelectedAspectRatio(ratio);
+    setActiveControl(null);
+    if (!stream) return;
+
+    // Update settings with new aspect ratio
+    const newSettings = {
+      ...settings,
+      aspectRatio: ratio,
+      width: resolution?.width,
+      height: resolution?.height,
+    };
+
+    // Default to auto white balance, but keep a manual one
+    if (
+      !newSettings.whiteBalanceMode &&
+      capabilities?.whiteBalanceMode?.includes("continuous")
+    ) {
+      newSettings.whiteBalanceMode = "continuous";
+    }
+
+    // A new resolution needs a new stream; failures surface as camera errors
+    await restartCamera(newSettings);
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    savePreset(presetName, presetDevice, settings, selectedAspectRatio);
+    setPresets(listPresets(presetDevice));
+    setPresetName("");
+  };
+
+  const handleLoadPreset = async (preset: SettingsPreset) => {
+    if (!capabilities) return;
+
+    // Clamp to what this lens can do and tell the user what changed
+    const { settings: presetSettings, warnings } = fitPresetSettings(
+      preset.settings,
+      capabilities
+    );
+    setPresetWarnings(warnings);
+    if (preset.aspectRatio !== selectedAspectRatio) {
+      setSelectedAspectRatio(preset.aspectRatio);
+    }
 
-    // Apply settings to the existing stream without restarting
     if (stream) {
+      resetZoomTarget();
+      // iOS only honours a new aspect ratio on a fresh stream
+      if (isIOS && preset.aspectRatio !== selectedAspectRatio) {
+        await restartCamera({
+          ...presetSettings,
+          aspectRatio: preset.aspectRatio,
+        });
+        return;
+      }
       try {
-        await applySettingsToStream(stream, newSettings);
+        await applySettings(presetSettings);
       } catch (err) {
-        console.error("Failed to apply settings to stream:", err);
+        console.error("Failed to apply preset:", err);
+        setPresetWarnings([
+          ...warnings,
+          "The camera rejected some of the preset values",
+        ]);
       }
     }
   };
 
-  const handleCapture = () => {
-    if (videoRef.current) {
-      try {
-        const photo = capturePhoto(videoRef.current, settings);
-        setCapturedImage(photo);
-      } catch (err) {
-        console.error("Failed to capture photo:", err);
-      }
+  const handleCopyLink = async () => {
+    const query = buildDeepLinkQuery(
+      cameras,
+      selectedCamera,
+      settings,
+      selectedAspectRatio
+    );
+    const url = `${window.location.origin}${window.location.pathname}${query}`;
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareMessage("Link copied");
+    } catch (err) {
+      console.error("Failed to copy link:", err);
+      setShareMessage("Could not copy link");
+    }
+  };
+
+  const handleDeletePreset = (id: string) => {
+    deletePreset(id);
+    setPresets(listPresets(presetDevice));
+  };
+
+  const handleTapToFocus = async (
+    event: React.PointerEvent<HTMLVideoElement>
+  ) => {
+    if (tapPointerRef.current !== event.pointerId) return;
+    tapPointerRef.current = null;
+    if (!stream || !capabilities?.pointsOfInterest) return;
+
+    // The second tap of a double-tap zooms instead
+    if (event.timeStamp - lastFocusTapRef.current < DOUBLE_TAP_MS) {
+      lastFocusTapRef.current = 0;
+      return;
+    }
+    lastFocusTapRef.current = event.timeStamp;
+
+    const video = event.currentTarget;
+    const point = clientToVideoPoint(video, event.clientX, event.clientY);
+    if (!point) return;
+
+    // Reticle is positioned in the preview container, where the tap landed
+    const container = video.parentElement?.getBoundingClientRect();
+    setFocusReticle({
+      x: event.clientX - (container?.left ?? 0),
+      y: event.clientY - (container?.top ?? 0),
+      id: Date.now(),
+    });
+
+    // Focus and meter once on the tapped point; later changes restore the
+    // focus and exposure modes from the settings
+    try {
+      await focusAt(point);
+    } catch (err) {
+      console.error("Failed to apply point of interest:", err);
     }
   };
 
+  const handleCapture = async () => {
+    if (!videoRef.current || isCapturing) return;
+
+    setIsCapturing(true);
+    try {
+      // Ask for the largest still the sensor can deliver
+      const photo = await capturePhoto(videoRef.current, settings, {
+        photoSettings: {
+          imageWidth: photoCapabilities?.imageWidth?.max,
+          imageHeight: photoCapabilities?.imageHeight?.max,
+          fillLightMode,
+        },
+        format: captureFormat,
+        quality: captureQuality,
+        lensLabel: cameras.find((c) => c.deviceId === selectedCamera)?.label,
+      });
+      setCapturedImage({ ...photo, url: URL.createObjectURL(photo.blob) });
+
+      // Keep every capture in the gallery with its settings snapshot
+      const camera = cameras.find((c) => c.deviceId === selectedCamera);
+      pendingSaveRef.current = saveCapture({
+        sessionId: getSessionId(),
+        blob: photo.blob,
+        mimeType: photo.mimeType,
+        width: photo.width,
+        height: photo.height,
+        source: photo.source,
+        capturedAt: photo.capturedAt,
+        settings,
+        trackSettings: photo.trackSettings,
+        deviceId: camera?.deviceId,
+        deviceLabel: camera?.label,
+      })
+        .then((record) =>
+          setLastThumbnailUrl(URL.createObjectURL(record.thumbnail))
+        )
+        .catch((err) => {
+          console.error("Failed to save capture to gallery:", err);
+        });
+    } catch (err) {
+      console.error("Failed to capture photo:", err);
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const handleStartRecording = () => {
+    if (!stream || recordingRef.current) return;
+
+    try {
+      recordingRef.current = startRecording(stream, {
+        mimeType: recordingMimeType || undefined,
+        videoBitsPerSecond: recordingBitrate,
+      });
+      setRecordingElapsed(0);
+      setRecordingState("recording");
+    } catch (err) {
+      console.error("Failed to start recording:", err);
+    }
+  };
+
+  async function handleStopRecording() {
+    const recording = recordingRef.current;
+    if (!recording) return;
+
+    recordingRef.current = null;
+    setRecordingState("inactive");
+
+    try {
+      const result = await recording.stop();
+      setRecordedVideo({ ...result, url: URL.createObjectURL(result.blob) });
+    } catch (err) {
+      console.error("Failed to stop recording:", err);
+    }
+  }
+
+  const handleTogglePause = () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+
+    if (recording.getState() === "paused") {
+      recording.resume();
+    } else {
+      recording.pause();
+    }
+    setRecordingState(recording.getState());
+    setRecordingElapsed(recording.getElapsedMs());
+  };
+
+  const handleShutter = () => {
+    if (captureMode === "photo") {
+      void handleCapture();
+    } else if (recordingRef.current) {
+      void handleStopRecording();
+    } else {
+      handleStartRecording();
+    }
+  };
+
+  const handleExportSession = async () => {
+    if (isExporting) return;
+
+    setIsExporting(true);
+    try {
+      // Make sure the capture on screen has been stored before exporting
+      await pendingSaveRef.current.catch(() => undefined);
+      const captures = await listSessionCaptures();
+      if (captures.length === 0) return;
+
+      const archive = await exportCapturesAsZip(captures);
+      downloadBlob(
+        archive,
+        getCaptureFileName("zip", Date.now(), "browsercam-session")
+      );
+    } catch (err) {
+      console.error("Failed to export session:", err);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleShare = async (
+    blob: Blob,
+    fileName: string,
+    trackSettings: MediaTrackSettings
+  ) => {
+    const lensLabel = cameras.find((c) => c.deviceId === selectedCamera)?.label;
+    try {
+      const result = await shareFile({
+        file: new File([blob], fileName, { type: blob.type }),
+        title: "BrowserCam",
+        text: formatSettingsSummary(trackSettings, lensLabel),
+      });
+      setShareMessage(describeShareResult(result) ?? "");
+    } catch (err) {
+      console.error("Failed to share:", err);
+      setShareMessage("Sharing failed");
+    }
+  };
+
+  const handleFillLightModeChange = () => {
+    const modes = photoCapabilities?.fillLightMode;
+    if (!modes || modes.length === 0) return;
+    const nextIndex = (modes.indexOf(fillLightMode) + 1) % modes.length;
+    setFillLightMode(modes[nextIndex] ?? "off");
+  };
+
   if (isLoading) {
     return (
       <main className="flex min-h-screen items-center justify-center bg-black text-white">
@@ -582,26 +1025,9 @@ export default function CameraPage() {
   const handleRetry = () => {
     setError("");
     setErrorDetails("");
-    setIsLoading(true);
-
-    // Properly cleanup existing stream first
-    if (stream) {
-      stopCamera(stream);
-      setStream(null);
-    }
 
-    // Reset capabilities and settings
-    setCapabilities(null);
-    setSettings({});
-
-    // Force re-initialization by temporarily clearing and then setting the camera
-    const currentCamera = selectedCamera;
-    setSelectedCamera("");
-
-    // Use setTimeout to ensure state updates are processed
-    setTimeout(() => {
-      setSelectedCamera(currentCamera);
-    }, 100);
+    // Open the camera from scratch, with fresh defaults
+    retryCamera();
   };
 
   const handleSwitchCamera = () => {
@@ -678,6 +1104,95 @@ export default function CameraPage() {
     );
   }
 
+  const shutterControls = (
+    <div className="flex flex-col items-center gap-3">
+      {/* Photo / Video mode toggle */}
+      {recordingFormats.length > 0 && (
+        <div className="flex rounded-full bg-black/50 p-1 text-[10px] font-semibold backdrop-blur-sm">
+          {(["photo", "video"] as const).map((mode) => (
+            <button
+              type="button"
+              key={mode}
+              onClick={() => setCaptureMode(mode)}
+              disabled={recordingState !== "inactive"}
+              className={`rounded-full px-3 py-1 uppercase transition-colors ${
+                captureMode === mode
+                  ? "bg-white text-black"
+                  : "text-white/70 hover:text-white"
+              }`}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div
+        className={`flex items-center gap-6 ${
+          isLandscape ? "flex-col" : "flex-row"
+        }`}
+      >
+        {/* Gallery */}
+        <Link
+          href="/gallery"
+          className="flex h-12 w-12 items-center justify-center overflow-hidden rounded-xl border-2 border-white/60 bg-black/50 backdrop-blur-sm"
+        >
+          {lastThumbnailUrl ? (
+            <img
+              src={lastThumbnailUrl}
+              alt="Gallery"
+              className="h-full w-full object-cover"
+            />
+          ) : (
+            <svg
+              aria-hidden="true"
+              className="h-6 w-6"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+              />
+            </svg>
+          )}
+        </Link>
+
+        <button
+          type="button"
+          onClick={handleShutter}
+          disabled={isCapturing}
+          className="flex h-20 w-20 items-center justify-center rounded-full border-4 border-white bg-transparent transition-transform active:scale-95 disabled:opacity-50"
+        >
+          {captureMode === "photo" ? (
+            <div className="h-16 w-16 rounded-full bg-white" />
+          ) : recordingState === "inactive" ? (
+            <div className="h-16 w-16 rounded-full bg-red-600" />
+          ) : (
+            <div className="h-8 w-8 rounded-md bg-red-600" />
+          )}
+        </button>
+
+        {/* Balances the gallery button so the shutter stays centered */}
+        <div className="h-12 w-12" />
+      </div>
+
+      {/* Pause / Resume while recording */}
+      {recordingState !== "inactive" && (
+        <button
+          type="button"
+          onClick={handleTogglePause}
+          className="rounded-full bg-black/50 px-4 py-1.5 text-xs font-semibold backdrop-blur-sm hover:bg-black/70"
+        >
+          {recordingState === "paused" ? "Resume" : "Pause"}
+        </button>
+      )}
+    </div>
+  );
+
   return (
     <main
       className={`relative h-dvh w-screen overflow-hidden bg-black text-white transition-all duration-300 ease-out ${
@@ -685,15 +1200,85 @@ export default function CameraPage() {
       }`}
     >
       {/* Video Preview */}
-      <div className="flex h-full w-full items-center justify-center">
+      <div className="relative flex h-full w-full items-center justify-center">
         <video
-          ref={videoRef}
+          ref={setVideoRef}
           autoPlay
           playsInline
           muted
-          className="max-h-full max-w-full object-contain"
+          onPointerDown={(e) => {
+            // A second finger turns the tap into a pinch
+            tapPointerRef.current =
+              e.isPrimary && e.button === 0 ? e.pointerId : null;
+          }}
+          onPointerUp={handleTapToFocus}
+          className="max-h-full max-w-full touch-none object-contain"
+        />
+        <ExposureOverlay
+          videoRef={videoRef}
+          mode={exposureOverlay}
+          zebraThreshold={zebraThreshold}
         />
+        <FocusPeakingOverlay
+          videoRef={videoRef}
+          enabled={focusPeaking}
+          color={peakingColor}
+          sensitivity={peakingSensitivity}
+        />
+        <GuidesOverlay
+          videoRef={videoRef}
+          guides={guides}
+          cropMarks={cropMarks}
+        />
+        {showLevel && level && (
+          <LevelOverlay videoRef={videoRef} level={level} />
+        )}
+        {focusReticle && (
+          <div
+            key={focusReticle.id}
+            className="pointer-events-none absolute h-16 w-16 rounded-md border-2 border-yellow-400"
+            style={{
+              left: focusReticle.x,
+              top: focusReticle.y,
+              animation: "focus-reticle 1.2s ease-out forwards",
+            }}
+            onAnimationEnd={() => setFocusReticle(null)}
+          />
+        )}
       </div>
+      {/* Histogram Overlay */}
+      {showHistogram && (
+        <HistogramOverlay
+          videoRef={videoRef}
+          className={`absolute ${
+            isLandscape ? "bottom-4 left-4" : "left-3 top-16"
+          }`}
+        />
+      )}
+      {/* Frame Stats Overlay */}
+      {showFrameStats && (
+        <FrameStatsOverlay
+          videoRef={videoRef}
+          requestedFrameRate={
+            settings.frameRate ?? capabilities?.frameRate?.max
+          }
+          exposureTime={
+            settings.exposureMode === "manual"
+              ? settings.exposureTime
+              : undefined
+          }
+          className={`absolute ${
+            isLandscape ? "bottom-4 left-60" : "left-3 top-48"
+          }`}
+        />
+      )}
+      {/* Scopes stay above the sliding panel so setting changes can be judged */}
+      <ScopesPanel
+        videoRef={videoRef}
+        className={`fixed ${
+          isLandscape ? "left-4 top-20" : "bottom-48 left-3"
+        }`}
+      />
       {/* Portrait Mode: Top Bar with Lens and Resolution */}
       {!isLandscape && (
         <div className="absolute left-0 right-0 top-0 p-3 transition-all duration-300 ease-out transform">
@@ -740,6 +1325,32 @@ export default function CameraPage() {
 								</button>
 							)} */}
 
+              {/* Histogram Toggle */}
+              <button
+                type="button"
+                onClick={() => setShowHistogram(!showHistogram)}
+                className={`rounded-lg px-3 py-2 text-xs font-semibold backdrop-blur-sm transition-colors ${
+                  showHistogram
+                    ? "bg-blue-600"
+                    : "bg-black/50 hover:bg-black/70"
+                }`}
+              >
+                HIST
+              </button>
+
+              {/* Frame Stats Toggle */}
+              <button
+                type="button"
+                onClick={() => setShowFrameStats(!showFrameStats)}
+                className={`rounded-lg px-3 py-2 text-xs font-semibold backdrop-blur-sm transition-colors ${
+                  showFrameStats
+                    ? "bg-blue-600"
+                    : "bg-black/50 hover:bg-black/70"
+                }`}
+              >
+                STATS
+              </button>
+
               {/* Resolution Display */}
               {capabilities?.aspectRatio && (
                 <button
@@ -816,6 +1427,113 @@ export default function CameraPage() {
 
           {/* Settings controls in the center */}
           <div className="flex items-center gap-3">
+            {/* Recording Format */}
+            {captureMode === "video" && recordingFormats.length > 0 && (
+              <button
+                type="button"
+                onClick={() =>
+                  setActiveControl(
+                    activeControl === "recording" ? null : "recording"
+                  )
+                }
+                disabled={recordingState !== "inactive"}
+                className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+                  activeControl === "recording"
+                    ? "bg-blue-600"
+                    : "bg-black/50 backdrop-blur-sm"
+                }`}
+              >
+                <span className="text-[10px] text-red-400">REC</span>
+                <span className="text-[10px] font-semibold">
+                  {recordingFormats.find(
+                    (f) => f.mimeType === recordingMimeType
+                  )?.codec ?? "Auto"}
+                </span>
+              </button>
+            )}
+
+            {/* Photo Format */}
+            {captureMode === "photo" && imageFormats.length > 0 && (
+              <button
+                type="button"
+                onClick={() =>
+                  setActiveControl(
+                    activeControl === "photoFormat" ? null : "photoFormat"
+                  )
+                }
+                className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+                  activeControl === "photoFormat"
+                    ? "bg-blue-600"
+                    : "bg-black/50 backdrop-blur-sm"
+                }`}
+              >
+                <span className="text-[10px] text-blue-400">FMT</span>
+                <span className="text-[10px] font-semibold">
+                  {getImageExtension(captureFormat).toUpperCase()}
+                </span>
+              </button>
+            )}
+
+            {/* Exposure Overlay */}
+            <button
+              type="button"
+              onClick={() =>
+                setActiveControl(
+                  activeControl === "exposureOverlay" ? null : "exposureOverlay"
+                )
+              }
+              className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+                activeControl === "exposureOverlay"
+                  ? "bg-blue-600"
+                  : "bg-black/50 backdrop-blur-sm"
+              }`}
+            >
+              <span className="text-[10px] text-blue-400">EXP</span>
+              <span className="text-[10px] font-semibold">
+                {exposureOverlay === "zebra"
+                  ? "ZEB"
+                  : exposureOverlay === "falseColor"
+                  ? "FC"
+                  : "Off"}
+              </span>
+            </button>
+
+            {/* Composition Guides */}
+            <button
+              type="button"
+              onClick={() =>
+                setActiveControl(activeControl === "guides" ? null : "guides")
+              }
+              className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+                activeControl === "guides"
+                  ? "bg-blue-600"
+                  : "bg-black/50 backdrop-blur-sm"
+              }`}
+            >
+              <span className="text-[10px] text-blue-400">GRID</span>
+              <span className="text-[10px] font-semibold">
+                {activeGuideCount > 0 ? activeGuideCount : "Off"}
+              </span>
+            </button>
+
+            {/* Presets */}
+            <button
+              type="button"
+              onClick={() =>
+                setActiveControl(activeControl === "presets" ? null : "presets")
+              }
+              className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+                activeControl === "presets"
+                  ? "bg-blue-600"
+                  : "bg-black/50 backdrop-blur-sm"
+              }`}
+            >
+              <span className="text-[10px] text-blue-400">PRE</span>
+              <span className="text-[10px] font-semibold">
+                {presets.length}
+              </span>
+            </button>
+
             {/* Frame Rate */}
             {capabilities?.frameRate && (
               <button
@@ -824,13 +1542,17 @@ export default function CameraPage() {
                     activeControl === "frameRate" ? null : "frameRate"
                   )
                 }
-                className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+                className={`relative flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
                   activeControl === "frameRate"
                     ? "bg-blue-600"
                     : "bg-black/50 backdrop-blur-sm"
                 }`}
               >
                 <span className="text-[10px] text-blue-400">FPS</span>
+                <SettingWarningBadge
+                  diff={settingsDiff}
+                  fields={["frameRate"]}
+                />
                 <span className="text-xs font-semibold">
                   {settings.frameRate ?? capabilities.frameRate.max}
                 </span>
@@ -843,13 +1565,17 @@ export default function CameraPage() {
                 onClick={() =>
                   setActiveControl(activeControl === "iso" ? null : "iso")
                 }
-                className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+                className={`relative flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
                   activeControl === "iso"
                     ? "bg-blue-600"
                     : "bg-black/50 backdrop-blur-sm"
                 }`}
               >
                 <span className="text-[10px] text-blue-400">ISO</span>
+                <SettingWarningBadge
+                  diff={settingsDiff}
+                  fields={["iso", "exposureMode"]}
+                />
                 <span className="text-xs font-semibold">
                   {settings.iso ? settings.iso : "Auto"}
                 </span>
@@ -866,13 +1592,17 @@ export default function CameraPage() {
                       : "colorTemperature"
                   )
                 }
-                className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+                className={`relative flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
                   activeControl === "colorTemperature"
                     ? "bg-blue-600"
                     : "bg-black/50 backdrop-blur-sm"
                 }`}
               >
                 <span className="text-[10px] text-blue-400">WB</span>
+                <SettingWarningBadge
+                  diff={settingsDiff}
+                  fields={["colorTemperature", "whiteBalanceMode"]}
+                />
                 <span className="text-xs font-semibold">
                   {settings.colorTemperature
                     ? `${settings.colorTemperature}K`
@@ -891,13 +1621,17 @@ export default function CameraPage() {
                       : "exposureCompensation"
                   )
                 }
-                className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+                className={`relative flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
                   activeControl === "exposureCompensation"
                     ? "bg-blue-600"
                     : "bg-black/50 backdrop-blur-sm"
                 }`}
               >
                 <span className="text-[10px] text-blue-400">EV</span>
+                <SettingWarningBadge
+                  diff={settingsDiff}
+                  fields={["exposureCompensation"]}
+                />
                 <span className="text-xs font-semibold">
                   {(settings.exposureCompensation ?? 0).toFixed(1)}
                 </span>
@@ -910,13 +1644,14 @@ export default function CameraPage() {
                 onClick={() =>
                   setActiveControl(activeControl === "zoom" ? null : "zoom")
                 }
-                className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+                className={`relative flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
                   activeControl === "zoom"
                     ? "bg-blue-600"
                     : "bg-black/50 backdrop-blur-sm"
                 }`}
               >
                 <span className="text-[10px] text-blue-400">ZOOM</span>
+                <SettingWarningBadge diff={settingsDiff} fields={["zoom"]} />
                 <span className="text-xs font-semibold">
                   {(settings.zoom ?? capabilities.zoom.min).toFixed(1)}x
                 </span>
@@ -931,7 +1666,7 @@ export default function CameraPage() {
                     activeControl === "focusDistance" ? null : "focusDistance"
                   )
                 }
-                className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+                className={`relative flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
                   activeControl === "focusDistance"
                     ? "bg-blue-600"
                     : "bg-black/50 backdrop-blur-sm"
@@ -940,6 +1675,10 @@ export default function CameraPage() {
                 {settings.focusMode === "manual" ? (
                   <>
                     <span className="text-[10px] text-blue-400">MF</span>
+                    <SettingWarningBadge
+                      diff={settingsDiff}
+                      fields={["focusDistance", "focusMode"]}
+                    />
                     <span className="text-xs font-semibold">
                       {(
                         settings.focusDistance ?? capabilities.focusDistance.min
@@ -960,13 +1699,17 @@ export default function CameraPage() {
                     activeControl === "exposureTime" ? null : "exposureTime"
                   )
                 }
-                className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+                className={`relative flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
                   activeControl === "exposureTime"
                     ? "bg-blue-600"
                     : "bg-black/50 backdrop-blur-sm"
                 }`}
               >
                 <span className="text-[10px] text-blue-400">SHUTTER</span>
+                <SettingWarningBadge
+                  diff={settingsDiff}
+                  fields={["exposureTime", "exposureMode"]}
+                />
                 <span className="text-xs font-semibold">
                   {settings.exposureTime
                     ? `1/${Math.round(1000 / settings.exposureTime)}`
@@ -1000,6 +1743,25 @@ export default function CameraPage() {
                 </svg>
               </button>
             )}
+
+            {/* Still Fill Light (flash) */}
+            {photoCapabilities?.fillLightMode &&
+              photoCapabilities.fillLightMode.length > 1 && (
+                <button
+                  type="button"
+                  onClick={handleFillLightModeChange}
+                  className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+                    fillLightMode === "off"
+                      ? "bg-black/50 backdrop-blur-sm"
+                      : "bg-yellow-600"
+                  }`}
+                >
+                  <span className="text-[10px] text-blue-400">FLASH</span>
+                  <span className="text-xs font-semibold uppercase">
+                    {fillLightMode}
+                  </span>
+                </button>
+              )}
           </div>
 
           <div className="flex items-center gap-2">
@@ -1015,6 +1777,28 @@ export default function CameraPage() {
 							</button>
 						)} */}
 
+            {/* Histogram Toggle */}
+            <button
+              type="button"
+              onClick={() => setShowHistogram(!showHistogram)}
+              className={`rounded-lg px-3 py-2 text-xs font-semibold backdrop-blur-sm transition-colors ${
+                showHistogram ? "bg-blue-600" : "bg-black/50 hover:bg-black/70"
+              }`}
+            >
+              HIST
+            </button>
+
+            {/* Frame Stats Toggle */}
+            <button
+              type="button"
+              onClick={() => setShowFrameStats(!showFrameStats)}
+              className={`rounded-lg px-3 py-2 text-xs font-semibold backdrop-blur-sm transition-colors ${
+                showFrameStats ? "bg-blue-600" : "bg-black/50 hover:bg-black/70"
+              }`}
+            >
+              STATS
+            </button>
+
             {/* Resolution Display */}
             {capabilities?.aspectRatio && (
               <button
@@ -1059,6 +1843,110 @@ export default function CameraPage() {
       {/* Portrait Mode: Side Controls on the right */}
       {!isLandscape && (
         <div className="absolute right-4 top-20 flex flex-col items-center gap-3 transition-all duration-300 ease-out transform">
+          {/* Recording Format */}
+          {captureMode === "video" && recordingFormats.length > 0 && (
+            <button
+              type="button"
+              onClick={() =>
+                setActiveControl(
+                  activeControl === "recording" ? null : "recording"
+                )
+              }
+              disabled={recordingState !== "inactive"}
+              className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+                activeControl === "recording"
+                  ? "bg-blue-600"
+                  : "bg-black/50 backdrop-blur-sm"
+              }`}
+            >
+              <span className="text-[10px] text-red-400">REC</span>
+              <span className="text-[10px] font-semibold">
+                {recordingFormats.find((f) => f.mimeType === recordingMimeType)
+                  ?.codec ?? "Auto"}
+              </span>
+            </button>
+          )}
+
+          {/* Photo Format */}
+          {captureMode === "photo" && imageFormats.length > 0 && (
+            <button
+              type="button"
+              onClick={() =>
+                setActiveControl(
+                  activeControl === "photoFormat" ? null : "photoFormat"
+                )
+              }
+              className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+                activeControl === "photoFormat"
+                  ? "bg-blue-600"
+                  : "bg-black/50 backdrop-blur-sm"
+              }`}
+            >
+              <span className="text-[10px] text-blue-400">FMT</span>
+              <span className="text-[10px] font-semibold">
+                {getImageExtension(captureFormat).toUpperCase()}
+              </span>
+            </button>
+          )}
+
+          {/* Exposure Overlay */}
+          <button
+            type="button"
+            onClick={() =>
+              setActiveControl(
+                activeControl === "exposureOverlay" ? null : "exposureOverlay"
+              )
+            }
+            className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+              activeControl === "exposureOverlay"
+                ? "bg-blue-600"
+                : "bg-black/50 backdrop-blur-sm"
+            }`}
+          >
+            <span className="text-[10px] text-blue-400">EXP</span>
+            <span className="text-[10px] font-semibold">
+              {exposureOverlay === "zebra"
+                ? "ZEB"
+                : exposureOverlay === "falseColor"
+                ? "FC"
+                : "Off"}
+            </span>
+          </button>
+
+          {/* Composition Guides */}
+          <button
+            type="button"
+            onClick={() =>
+              setActiveControl(activeControl === "guides" ? null : "guides")
+            }
+            className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+              activeControl === "guides"
+                ? "bg-blue-600"
+                : "bg-black/50 backdrop-blur-sm"
+            }`}
+          >
+            <span className="text-[10px] text-blue-400">GRID</span>
+            <span className="text-[10px] font-semibold">
+              {activeGuideCount > 0 ? activeGuideCount : "Off"}
+            </span>
+          </button>
+
+          {/* Presets */}
+          <button
+            type="button"
+            onClick={() =>
+              setActiveControl(activeControl === "presets" ? null : "presets")
+            }
+            className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+              activeControl === "presets"
+                ? "bg-blue-600"
+                : "bg-black/50 backdrop-blur-sm"
+            }`}
+          >
+            <span className="text-[10px] text-blue-400">PRE</span>
+            <span className="text-[10px] font-semibold">{presets.length}</span>
+          </button>
+
           {/* Frame Rate */}
           {capabilities?.frameRate && (
             <button
@@ -1067,13 +1955,14 @@ export default function CameraPage() {
                   activeControl === "frameRate" ? null : "frameRate"
                 )
               }
-              className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+              className={`relative flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
                 activeControl === "frameRate"
                   ? "bg-blue-600"
                   : "bg-black/50 backdrop-blur-sm"
               }`}
             >
               <span className="text-[10px] text-blue-400">FPS</span>
+              <SettingWarningBadge diff={settingsDiff} fields={["frameRate"]} />
               <span className="text-xs font-semibold">
                 {settings.frameRate ?? capabilities.frameRate.max}
               </span>
@@ -1086,13 +1975,17 @@ export default function CameraPage() {
               onClick={() =>
                 setActiveControl(activeControl === "iso" ? null : "iso")
               }
-              className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+              className={`relative flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
                 activeControl === "iso"
                   ? "bg-blue-600"
                   : "bg-black/50 backdrop-blur-sm"
               }`}
             >
               <span className="text-[10px] text-blue-400">ISO</span>
+              <SettingWarningBadge
+                diff={settingsDiff}
+                fields={["iso", "exposureMode"]}
+              />
               <span className="text-xs font-semibold">
                 {settings.iso ? settings.iso : "Auto"}
               </span>
@@ -1109,13 +2002,17 @@ export default function CameraPage() {
                     : "colorTemperature"
                 )
               }
-              className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+              className={`relative flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
                 activeControl === "colorTemperature"
                   ? "bg-blue-600"
                   : "bg-black/50 backdrop-blur-sm"
               }`}
             >
               <span className="text-[10px] text-blue-400">WB</span>
+              <SettingWarningBadge
+                diff={settingsDiff}
+                fields={["colorTemperature", "whiteBalanceMode"]}
+              />
               <span className="text-xs font-semibold">
                 {settings.colorTemperature
                   ? `${settings.colorTemperature}K`
@@ -1134,13 +2031,17 @@ export default function CameraPage() {
                     : "exposureCompensation"
                 )
               }
-              className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+              className={`relative flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
                 activeControl === "exposureCompensation"
                   ? "bg-blue-600"
                   : "bg-black/50 backdrop-blur-sm"
               }`}
             >
               <span className="text-[10px] text-blue-400">EV</span>
+              <SettingWarningBadge
+                diff={settingsDiff}
+                fields={["exposureCompensation"]}
+              />
               <span className="text-xs font-semibold">
                 {(settings.exposureCompensation ?? 0).toFixed(1)}
               </span>
@@ -1153,13 +2054,14 @@ export default function CameraPage() {
               onClick={() =>
                 setActiveControl(activeControl === "zoom" ? null : "zoom")
               }
-              className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+              className={`relative flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
                 activeControl === "zoom"
                   ? "bg-blue-600"
                   : "bg-black/50 backdrop-blur-sm"
               }`}
             >
               <span className="text-[10px] text-blue-400">ZOOM</span>
+              <SettingWarningBadge diff={settingsDiff} fields={["zoom"]} />
               <span className="text-xs font-semibold">
                 {(settings.zoom ?? capabilities.zoom.min).toFixed(1)}x
               </span>
@@ -1174,7 +2076,7 @@ export default function CameraPage() {
                   activeControl === "focusDistance" ? null : "focusDistance"
                 )
               }
-              className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+              className={`relative flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
                 activeControl === "focusDistance"
                   ? "bg-blue-600"
                   : "bg-black/50 backdrop-blur-sm"
@@ -1183,6 +2085,10 @@ export default function CameraPage() {
               {settings.focusMode === "manual" ? (
                 <>
                   <span className="text-[10px] text-blue-400">MF</span>
+                  <SettingWarningBadge
+                    diff={settingsDiff}
+                    fields={["focusDistance", "focusMode"]}
+                  />
                   <span className="text-xs font-semibold">
                     {(
                       settings.focusDistance ?? capabilities.focusDistance.min
@@ -1203,13 +2109,17 @@ export default function CameraPage() {
                   activeControl === "exposureTime" ? null : "exposureTime"
                 )
               }
-              className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+              className={`relative flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
                 activeControl === "exposureTime"
                   ? "bg-blue-600"
                   : "bg-black/50 backdrop-blur-sm"
               }`}
             >
               <span className="text-[10px] text-blue-400">SHUTTER</span>
+              <SettingWarningBadge
+                diff={settingsDiff}
+                fields={["exposureTime", "exposureMode"]}
+              />
               <span className="text-xs font-semibold">
                 {settings.exposureTime
                   ? `1/${Math.round(1000 / settings.exposureTime)}`
@@ -1243,6 +2153,25 @@ export default function CameraPage() {
               </svg>
             </button>
           )}
+
+          {/* Still Fill Light (flash) */}
+          {photoCapabilities?.fillLightMode &&
+            photoCapabilities.fillLightMode.length > 1 && (
+              <button
+                type="button"
+                onClick={handleFillLightModeChange}
+                className={`flex h-12 w-12 flex-col items-center justify-center rounded-xl transition-all ${
+                  fillLightMode === "off"
+                    ? "bg-black/50 backdrop-blur-sm"
+                    : "bg-yellow-600"
+                }`}
+              >
+                <span className="text-[10px] text-blue-400">FLASH</span>
+                <span className="text-xs font-semibold uppercase">
+                  {fillLightMode}
+                </span>
+              </button>
+            )}
         </div>
       )}
       {/* Sliding Control Panel */}
@@ -1322,21 +2251,13 @@ export default function CameraPage() {
                           }
                         }
 
-                        setSettings(newSettings);
-
                         // Apply settings without restarting camera
-                        if (stream) {
-                          (async () => {
-                            try {
-                              await applySettingsToStream(stream, newSettings);
-                            } catch (err) {
-                              console.error(
-                                "Failed to apply auto ISO settings:",
-                                err
-                              );
-                            }
-                          })();
-                        }
+                        applySettings(newSettings).catch((err) =>
+                          console.error(
+                            "Failed to apply auto ISO settings:",
+                            err
+                          )
+                        );
                       }}
                       disabled={!settings.iso}
                       className={`px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors ${
@@ -1360,12 +2281,10 @@ export default function CameraPage() {
                           64000, 80000, 102400, 128000, 160000, 204800,
                         ];
 
-                        // Filter to only ISO values within camera capabilities
-                        const availableISOs = standardISOValues.filter(
-                          (iso) =>
-                            capabilities.iso &&
-                            iso >= capabilities.iso.min &&
-                            iso <= capabilities.iso.max
+                        // Values the camera accepts, snapped to its ISO step
+                        const availableISOs = getSettingOptions(
+                          standardISOValues,
+                          capabilities.iso
                         );
 
                         return availableISOs.map((iso) => {
@@ -1438,24 +2357,13 @@ export default function CameraPage() {
                             }
                           }
 
-                          setSettings(newSettings);
-
                           // Apply settings without restarting camera
-                          if (stream) {
-                            (async () => {
-                              try {
-                                await applySettingsToStream(
-                                  stream,
-                                  newSettings
-                                );
-                              } catch (err) {
-                                console.error(
-                                  "Failed to apply auto WB settings:",
-                                  err
-                                );
-                              }
-                            })();
-                          }
+                          applySettings(newSettings).catch((err) =>
+                            console.error(
+                              "Failed to apply auto WB settings:",
+                              err
+                            )
+                          );
                         }}
                         disabled={!settings.colorTemperature}
                         className={`text-sm transition-colors ${
@@ -1483,24 +2391,13 @@ export default function CameraPage() {
                           const newSettings = { ...settings };
                           // EV's auto value is 0, not undefined
                           newSettings.exposureCompensation = 0;
-                          setSettings(newSettings);
-
                           // Apply settings without restarting camera
-                          if (stream) {
-                            (async () => {
-                              try {
-                                await applySettingsToStream(
-                                  stream,
-                                  newSettings
-                                );
-                              } catch (err) {
-                                console.error(
-                                  "Failed to apply auto EV settings:",
-                                  err
-                                );
-                              }
-                            })();
-                          }
+                          applySettings(newSettings).catch((err) =>
+                            console.error(
+                              "Failed to apply auto EV settings:",
+                              err
+                            )
+                          );
                         }}
                         disabled={
                           !settings.exposureCompensation ||
@@ -1528,11 +2425,15 @@ export default function CameraPage() {
                             capabilities.exposureCompensation.max,
                             5
                           );
-                          const evValues = [];
-
+                          const halfStops = [];
                           for (let ev = evMin; ev <= evMax; ev += 0.5) {
-                            evValues.push(ev);
+                            halfStops.push(ev);
                           }
+                          // Snap to the camera's EV step, e.g. 1/3 stop
+                          const evValues = getSettingOptions(
+                            halfStops,
+                            capabilities.exposureCompensation
+                          );
 
                           return evValues.map((ev) => {
                             const isSelected =
@@ -1567,7 +2468,7 @@ export default function CameraPage() {
                       </div>
                     </div>
                     <span className="text-xs text-white/60">
-                      Scroll to see all EV values · ±0.5 stop increments
+                      Scroll to see all EV values · half stops where supported
                     </span>
                   </div>
                 )}
@@ -1618,6 +2519,60 @@ export default function CameraPage() {
                     <span className="text-xs text-white/60">
                       Focus Distance
                     </span>
+                    <div className="flex flex-row items-center justify-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setFocusPeaking(!focusPeaking)}
+                        className={`rounded-lg px-3 py-1 text-xs font-semibold transition-colors ${
+                          focusPeaking
+                            ? "bg-blue-600 text-white"
+                            : "bg-white/10 hover:bg-white/20 text-white"
+                        }`}
+                      >
+                        PEAKING
+                      </button>
+                      {(Object.keys(PEAKING_COLORS) as PeakingColor[]).map(
+                        (color) => (
+                          <button
+                            type="button"
+                            key={color}
+                            onClick={() => setPeakingColor(color)}
+                            aria-label={`Peaking color ${color}`}
+                            className={`h-5 w-5 rounded-full border-2 transition-colors ${
+                              peakingColor === color
+                                ? "border-white"
+                                : "border-transparent"
+                            }`}
+                            style={{
+                              backgroundColor: `rgb(${PEAKING_COLORS[
+                                color
+                              ].join(",")})`,
+                            }}
+                          />
+                        )
+                      )}
+                    </div>
+                    {focusPeaking && (
+                      <div className="flex flex-row items-center justify-center gap-2">
+                        <span className="text-xs text-blue-400">
+                          SENSITIVITY
+                        </span>
+                        <input
+                          type="range"
+                          min={0}
+                          max={1}
+                          step={0.05}
+                          value={peakingSensitivity}
+                          onChange={(e) =>
+                            setPeakingSensitivity(Number(e.target.value))
+                          }
+                          className="w-40 accent-blue-500"
+                        />
+                        <span className="text-sm font-semibold">
+                          {Math.round(peakingSensitivity * 100)}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -1645,24 +2600,13 @@ export default function CameraPage() {
                             }
                           }
 
-                          setSettings(newSettings);
-
                           // Apply settings without restarting camera
-                          if (stream) {
-                            (async () => {
-                              try {
-                                await applySettingsToStream(
-                                  stream,
-                                  newSettings
-                                );
-                              } catch (err) {
-                                console.error(
-                                  "Failed to apply auto exposure time settings:",
-                                  err
-                                );
-                              }
-                            })();
-                          }
+                          applySettings(newSettings).catch((err) =>
+                            console.error(
+                              "Failed to apply auto exposure time settings:",
+                              err
+                            )
+                          );
                         }}
                         disabled={!settings.exposureTime}
                         className={`px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors ${
@@ -1736,13 +2680,23 @@ export default function CameraPage() {
                             { ms: 30000, label: "30s" },
                           ];
 
-                          // Filter to only speeds within camera capabilities
-                          const availableSpeeds = standardShutterSpeeds.filter(
-                            (speed) =>
-                              capabilities.exposureTime &&
-                              speed.ms >= capabilities.exposureTime.min &&
-                              speed.ms <= capabilities.exposureTime.max
-                          );
+                          // Speeds the camera accepts, snapped to its exposure step
+                          const exposureRange = capabilities.exposureTime;
+                          const availableSpeeds = standardShutterSpeeds
+                            .filter(
+                              (speed) =>
+                                speed.ms >= exposureRange.min &&
+                                speed.ms <= exposureRange.max
+                            )
+                            .map((speed) => ({
+                              ...speed,
+                              ms: normalizeValue(speed.ms, exposureRange),
+                            }))
+                            .filter(
+                              (speed, index, speeds) =>
+                                speeds.findIndex((s) => s.ms === speed.ms) ===
+                                index
+                            );
 
                           return availableSpeeds.map(({ ms, label }) => {
                             const isSelected =
@@ -1781,11 +2735,9 @@ export default function CameraPage() {
                       type="range"
                       min={capabilities.zoom.min}
                       max={capabilities.zoom.max}
-                      step={0.5}
+                      step={capabilities.zoom.step}
                       value={settings.zoom ?? capabilities.zoom.min}
-                      onChange={(e) =>
-                        handleSettingChange("zoom", Number(e.target.value))
-                      }
+                      onChange={(e) => setZoom(Number(e.target.value))}
                       className="w-48 accent-blue-500"
                     />
                     <span className="text-sm font-semibold">
@@ -1794,7 +2746,7 @@ export default function CameraPage() {
                     <button
                       onClick={() =>
                         capabilities?.zoom &&
-                        handleSettingChange("zoom", capabilities.zoom.min)
+                        setZoom(capabilities.zoom.min, true)
                       }
                       disabled={
                         !settings.zoom ||
@@ -1810,8 +2762,52 @@ export default function CameraPage() {
                       Reset
                     </button>
                   </div>
+                  <div className="flex gap-2 flex-wrap justify-center">
+                    {getZoomPresets(capabilities.zoom).map((preset) => (
+                      <button
+                        type="button"
+                        key={preset}
+                        onClick={() => setZoom(preset, true)}
+                        className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                          Math.abs(getCurrentZoom() - preset) < 0.01
+                            ? "bg-blue-600 text-white font-semibold"
+                            : "bg-white/10 hover:bg-white/20 text-white"
+                        }`}
+                      >
+                        {preset.toFixed(1)}x
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex flex-row flex-wrap items-center justify-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setSmoothZoom(!smoothZoom)}
+                      className={`rounded-lg px-3 py-1 text-xs font-semibold transition-colors ${
+                        smoothZoom
+                          ? "bg-blue-600 text-white"
+                          : "bg-white/10 hover:bg-white/20 text-white"
+                      }`}
+                    >
+                      SMOOTH
+                    </button>
+                    {smoothZoom &&
+                      ZOOM_RAMP_DURATIONS.map((duration) => (
+                        <button
+                          type="button"
+                          key={duration}
+                          onClick={() => setZoomRampDuration(duration)}
+                          className={`rounded-lg px-2 py-1 text-xs transition-colors ${
+                            zoomRampDuration === duration
+                              ? "bg-blue-600 text-white font-semibold"
+                              : "bg-white/10 hover:bg-white/20 text-white"
+                          }`}
+                        >
+                          {duration / 1000}s
+                        </button>
+                      ))}
+                  </div>
                   <span className="text-xs text-white/60">
-                    Digital Zoom · ±0.5x increments
+                    Pinch the preview to zoom · double-tap cycles presets
                   </span>
                 </div>
               )}
@@ -1832,75 +2828,26 @@ export default function CameraPage() {
                       { ratio: 16 / 9, name: "16:9" },
                       { ratio: 21 / 9, name: "21:9" },
                     ].map(({ ratio, name }) => {
-                      const availableResolutions = getAvailableResolutions(
-                        capabilities,
+                      const ratioResolutions = getResolutionsForRatio(
+                        verifiedResolutions,
                         ratio
                       );
-                      if (availableResolutions.length === 0) return null;
+                      // Without a probe result, offer the ratio unlabeled
+                      if (
+                        verifiedResolutions.length > 0 &&
+                        ratioResolutions.length === 0
+                      ) {
+                        return null;
+                      }
 
-                      const highestRes = availableResolutions[0];
+                      const highestRes = ratioResolutions[0];
 
                       return (
                         <button
                           key={name}
-                          onClick={async () => {
-                            setSelectedAspectRatio(ratio);
-                            setActiveControl(null);
-
-                            if (stream) {
-                              try {
-                                setIsLoading(true);
-                                stopCamera(stream);
-                                setStream(null);
-
-                                // Update settings with new aspect ratio and ensure whiteBalanceMode
-                                const newSettings = {
-                                  ...settings,
-                                  aspectRatio: ratio,
-                                };
-
-                                // Ensure white balance mode stays continuous
-                                if (capabilities?.whiteBalanceMode?.includes("continuous")) {
-                                  newSettings.whiteBalanceMode = "continuous";
-                                }
-
-                                setSettings(newSettings);
-
-                                const newStream = await startCamera(
-                                  newSettings,
-                                  selectedCamera
-                                );
-                                setStream(newStream);
-
-                                // Get actual current settings from the camera
-                                // try {
-                                //   const currentSettings = getCurrentSettings(newStream);
-                                //   setSettings(currentSettings);
-                                // } catch (err) {
-                                //   console.warn("Could not get current camera settings:", err);
-                                // }
-
-                                if (videoRef.current) {
-                                  videoRef.current.srcObject = newStream;
-                                  videoRef.current.load();
-                                  await videoRef.current.play();
-                                }
-                              } catch (err) {
-                                console.error(
-                                  "Failed to restart camera with new aspect ratio:",
-                                  err
-                                );
-                                setError("Failed to change aspect ratio");
-                                setErrorDetails(
-                                  err instanceof Error
-                                    ? err.message
-                                    : "Unknown error"
-                                );
-                              } finally {
-                                setIsLoading(false);
-                              }
-                            }
-                          }}
+                          onClick={() =>
+                            void handleResolutionChange(ratio, highestRes)
+                          }
                           className={`px-4 py-2 rounded-lg transition-colors flex flex-col items-center gap-1 ${
                             Math.abs(selectedAspectRatio - ratio) < 0.01
                               ? "bg-blue-600 text-white"
@@ -1917,6 +2864,367 @@ export default function CameraPage() {
                       );
                     })}
                   </div>
+                  {selectedRatioResolutions.length > 1 && (
+                    <div className="flex gap-2 flex-wrap justify-center max-w-xs">
+                      {selectedRatioResolutions.map((resolution) => (
+                        <button
+                          type="button"
+                          key={`${resolution.width}x${resolution.height}`}
+                          onClick={() =>
+                            void handleResolutionChange(
+                              selectedAspectRatio,
+                              resolution
+                            )
+                          }
+                          className={`px-3 py-1 rounded-lg text-xs transition-colors ${
+                            settings.width === resolution.width &&
+                            settings.height === resolution.height
+                              ? "bg-blue-600 text-white"
+                              : "bg-white/10 hover:bg-white/20 text-white/80"
+                          }`}
+                        >
+                          {resolution.width}×{resolution.height}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {activeControl === "photoFormat" && (
+                <div className="flex flex-col items-center gap-4">
+                  <span className="text-sm font-semibold text-center">
+                    Photo Format
+                  </span>
+                  <div className="flex gap-2 flex-wrap justify-center">
+                    {imageFormats.map((format) => (
+                      <button
+                        type="button"
+                        key={format.mimeType}
+                        onClick={() => setCaptureFormat(format.mimeType)}
+                        className={`px-4 py-2 rounded-lg transition-colors whitespace-nowrap ${
+                          captureFormat === format.mimeType
+                            ? "bg-blue-600 text-white font-semibold"
+                            : "bg-white/10 hover:bg-white/20 text-white"
+                        }`}
+                      >
+                        {format.label}
+                      </button>
+                    ))}
+                  </div>
+                  {imageFormats.find((f) => f.mimeType === captureFormat)
+                    ?.lossy && (
+                    <div className="flex flex-row items-center justify-center gap-2">
+                      <span className="text-xs text-blue-400">QUALITY</span>
+                      <input
+                        type="range"
+                        min={0.5}
+                        max={1}
+                        step={0.01}
+                        value={captureQuality}
+                        onChange={(e) =>
+                          setCaptureQuality(Number(e.target.value))
+                        }
+                        className="w-48 accent-blue-500"
+                      />
+                      <span className="text-sm font-semibold">
+                        {Math.round(captureQuality * 100)}
+                      </span>
+                    </div>
+                  )}
+                  <span className="text-xs text-white/60">
+                    Only formats this browser can encode are listed
+                  </span>
+                </div>
+              )}
+
+              {activeControl === "presets" && (
+                <div className="flex flex-col items-center gap-4">
+                  <span className="text-sm font-semibold text-center">
+                    Presets
+                  </span>
+                  <form
+                    className="flex flex-row items-center gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleSavePreset();
+                    }}
+                  >
+                    <input
+                      type="text"
+                      value={presetName}
+                      onChange={(e) => setPresetName(e.target.value)}
+                      placeholder="Preset name"
+                      className="w-48 rounded-lg bg-white/10 px-3 py-2 text-sm text-white placeholder:text-white/40"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!presetName.trim()}
+                      className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold transition-colors hover:bg-blue-700 disabled:opacity-40"
+                    >
+                      Save
+                    </button>
+                  </form>
+                  <button
+                    type="button"
+                    onClick={handleCopyLink}
+                    className="rounded-lg bg-white/10 px-4 py-2 text-sm transition-colors hover:bg-white/20"
+                  >
+                    Copy link to these settings
+                  </button>
+                  {presets.length > 0 ? (
+                    <div className="flex w-full max-w-md flex-col gap-2">
+                      {presets.map((preset) => (
+                        <div
+                          key={preset.id}
+                          className="flex items-center justify-between gap-2 rounded-lg bg-white/10 px-3 py-2"
+                        >
+                          <button
+                            type="button"
+                            onClick={() => handleLoadPreset(preset)}
+                            className="flex flex-1 flex-col items-start text-left"
+                          >
+                            <span className="text-sm font-semibold">
+                              {preset.name}
+                            </span>
+                            <span className="text-xs text-white/60">
+                              {new Date(preset.createdAt).toLocaleDateString()}
+                            </span>
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleDeletePreset(preset.id)}
+                            aria-label={`Delete preset ${preset.name}`}
+                            className="text-sm text-red-400 hover:text-red-300"
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <span className="text-xs text-white/60">
+                      No presets saved for this camera yet
+                    </span>
+                  )}
+                  {presetWarnings.length > 0 && (
+                    <ul className="flex flex-col gap-1 text-xs text-yellow-400">
+                      {presetWarnings.map((warning) => (
+                        <li key={warning}>⚠ {warning}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {activeControl === "guides" && (
+                <div className="flex flex-col items-center gap-4">
+                  <span className="text-sm font-semibold text-center">
+                    Composition Guides
+                  </span>
+                  <div className="flex gap-2 flex-wrap justify-center">
+                    {COMPOSITION_GUIDES.map(({ guide, label }) => (
+                      <button
+                        type="button"
+                        key={guide}
+                        onClick={() =>
+                          setGuides(
+                            guides.includes(guide)
+                              ? guides.filter((g) => g !== guide)
+                              : [...guides, guide]
+                          )
+                        }
+                        className={`px-4 py-2 rounded-lg transition-colors whitespace-nowrap ${
+                          guides.includes(guide)
+                            ? "bg-blue-600 text-white font-semibold"
+                            : "bg-white/10 hover:bg-white/20 text-white"
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex flex-col items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={async () => {
+                        if (showLevel) {
+                          setShowLevel(false);
+                        } else if (await requestLevelPermission()) {
+                          setShowLevel(true);
+                        }
+                      }}
+                      disabled={levelPermission === "unsupported"}
+                      className={`px-4 py-2 rounded-lg transition-colors whitespace-nowrap disabled:opacity-40 ${
+                        showLevel
+                          ? "bg-blue-600 text-white font-semibold"
+                          : "bg-white/10 hover:bg-white/20 text-white"
+                      }`}
+                    >
+                      Level
+                    </button>
+                    {levelPermission === "denied" && (
+                      <span className="text-xs text-red-400">
+                        Motion sensor access was denied
+                      </span>
+                    )}
+                    {showLevel && !level && (
+                      <span className="text-xs text-white/60">
+                        Waiting for motion sensor…
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-sm font-semibold text-center">
+                    Crop Marks
+                  </span>
+                  <div className="flex gap-2 flex-wrap justify-center">
+                    {CROP_MARKS.filter(
+                      // A crop matching the current frame would mark nothing
+                      ({ ratio }) =>
+                        Math.abs(ratio - selectedAspectRatio) > 0.01
+                    ).map(({ label, ratio }) => (
+                      <button
+                        type="button"
+                        key={label}
+                        onClick={() =>
+                          setCropMarks(
+                            cropMarks.includes(ratio)
+                              ? cropMarks.filter((r) => r !== ratio)
+                              : [...cropMarks, ratio]
+                          )
+                        }
+                        className={`px-4 py-2 rounded-lg transition-colors whitespace-nowrap ${
+                          cropMarks.includes(ratio)
+                            ? "bg-yellow-500 text-black font-semibold"
+                            : "bg-white/10 hover:bg-white/20 text-white"
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {activeControl === "exposureOverlay" && (
+                <div className="flex flex-col items-center gap-4">
+                  <span className="text-sm font-semibold text-center">
+                    Exposure Overlay
+                  </span>
+                  <div className="flex gap-2 flex-wrap justify-center">
+                    {(
+                      [
+                        ["off", "Off"],
+                        ["zebra", "Zebra"],
+                        ["falseColor", "False Color"],
+                      ] as const
+                    ).map(([mode, label]) => (
+                      <button
+                        type="button"
+                        key={mode}
+                        onClick={() => setExposureOverlay(mode)}
+                        className={`px-4 py-2 rounded-lg transition-colors whitespace-nowrap ${
+                          exposureOverlay === mode
+                            ? "bg-blue-600 text-white font-semibold"
+                            : "bg-white/10 hover:bg-white/20 text-white"
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {exposureOverlay === "zebra" && (
+                    <div className="flex flex-row items-center justify-center gap-2">
+                      <span className="text-xs text-blue-400">THRESHOLD</span>
+                      <input
+                        type="range"
+                        min={50}
+                        max={100}
+                        step={1}
+                        value={zebraThreshold}
+                        onChange={(e) =>
+                          setZebraThreshold(Number(e.target.value))
+                        }
+                        className="w-48 accent-blue-500"
+                      />
+                      <span className="text-sm font-semibold">
+                        {zebraThreshold}%
+                      </span>
+                    </div>
+                  )}
+                  {exposureOverlay === "falseColor" && (
+                    <div className="flex gap-3 flex-wrap justify-center">
+                      {FALSE_COLOR_BANDS.map(({ min, max, color, label }) => (
+                        <span
+                          key={label}
+                          className="flex items-center gap-1 text-xs text-white/80"
+                        >
+                          <span
+                            className="h-3 w-3 rounded-sm"
+                            style={{
+                              backgroundColor: `rgb(${color.join(",")})`,
+                            }}
+                          />
+                          {label} ({min}
+                          {Number.isFinite(max) ? `–${max}` : "+"}%)
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {activeControl === "recording" && (
+                <div className="flex flex-col items-center gap-4">
+                  <span className="text-sm font-semibold text-center">
+                    Recording Format
+                  </span>
+                  <div className="relative w-full max-w-md overflow-x-auto">
+                    <div className="flex gap-2 px-2 pb-2">
+                      {recordingFormats.map((format) => (
+                        <button
+                          type="button"
+                          key={format.mimeType}
+                          onClick={() => setRecordingMimeType(format.mimeType)}
+                          className={`px-4 py-2 rounded-lg transition-colors whitespace-nowrap flex-shrink-0 ${
+                            recordingMimeType === format.mimeType
+                              ? "bg-blue-600 text-white font-semibold"
+                              : "bg-white/10 hover:bg-white/20 text-white"
+                          }`}
+                        >
+                          {format.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <span className="text-sm font-semibold text-center">
+                    Bitrate
+                  </span>
+                  <div className="relative w-full max-w-md overflow-x-auto">
+                    <div className="flex gap-2 px-2 pb-2">
+                      {RECORDING_BITRATES.map(
+                        ({ label, videoBitsPerSecond }) => (
+                          <button
+                            type="button"
+                            key={videoBitsPerSecond}
+                            onClick={() =>
+                              setRecordingBitrate(videoBitsPerSecond)
+                            }
+                            className={`px-4 py-2 rounded-lg transition-colors whitespace-nowrap flex-shrink-0 ${
+                              recordingBitrate === videoBitsPerSecond
+                                ? "bg-blue-600 text-white font-semibold"
+                                : "bg-white/10 hover:bg-white/20 text-white"
+                            }`}
+                          >
+                            {label}
+                          </button>
+                        )
+                      )}
+                    </div>
+                  </div>
+                  <span className="text-xs text-white/60">
+                    Only formats this browser can encode are listed
+                  </span>
                 </div>
               )}
 
@@ -1972,25 +3280,31 @@ export default function CameraPage() {
           </div>
         </>
       )}{" "}
+      {/* Recording Timer */}
+      {recordingState !== "inactive" && (
+        <div className="absolute left-1/2 top-16 flex -translate-x-1/2 items-center gap-2 rounded-full bg-black/60 px-3 py-1 backdrop-blur-sm">
+          <div
+            className={`h-2.5 w-2.5 rounded-full bg-red-500 ${
+              recordingState === "recording" ? "animate-pulse" : "opacity-40"
+            }`}
+          />
+          <span className="font-mono text-sm font-semibold">
+            {formatRecordingTime(recordingElapsed)}
+          </span>
+          {recordingState === "paused" && (
+            <span className="text-xs text-white/60">PAUSED</span>
+          )}
+        </div>
+      )}
       {/* Capture Button - Portrait mode: bottom center, Landscape mode: right side middle */}
       {isLandscape ? (
         <div className="absolute right-4 top-1/2 -translate-y-1/2 transition-all duration-300 ease-out transform">
-          <button
-            onClick={handleCapture}
-            className="flex h-20 w-20 items-center justify-center rounded-full border-4 border-white bg-transparent transition-transform active:scale-95"
-          >
-            <div className="h-16 w-16 rounded-full bg-white" />
-          </button>
+          {shutterControls}
         </div>
       ) : (
         <div className="absolute bottom-0 left-0 right-0 p-4 transition-all duration-300 ease-out transform">
           <div className="flex items-center justify-center">
-            <button
-              onClick={handleCapture}
-              className="flex h-20 w-20 items-center justify-center rounded-full border-4 border-white bg-transparent transition-transform active:scale-95"
-            >
-              <div className="h-16 w-16 rounded-full bg-white" />
-            </button>
+            {shutterControls}
           </div>
         </div>
       )}
@@ -1998,19 +3312,116 @@ export default function CameraPage() {
       {capturedImage && (
         <div
           className="fixed inset-0 z-50 flex items-center justify-center bg-black/95"
-          onClick={() => setCapturedImage("")}
+          onClick={() => setCapturedImage(null)}
         >
           <div className="relative max-h-[90vh] max-w-[90vw]">
             <img
-              src={capturedImage}
+              src={capturedImage.url}
               alt="Captured"
               className="max-h-[90vh] max-w-[90vw]"
             />
+            <span className="absolute left-4 top-4 rounded-full bg-black/60 px-3 py-1 text-xs font-semibold backdrop-blur-sm">
+              {capturedImage.source === "image-capture"
+                ? "Sensor still"
+                : "Video frame"}{" "}
+              · {capturedImage.width}×{capturedImage.height} ·{" "}
+              {getImageExtension(capturedImage.mimeType).toUpperCase()} ·{" "}
+              {(capturedImage.blob.size / 1024 / 1024).toFixed(1)} MB
+            </span>
+            <button
+              onClick={() => setCapturedImage(null)}
+              className="absolute right-4 top-4 rounded-full bg-white/20 p-2 backdrop-blur-sm hover:bg-white/30"
+            >
+              <svg
+                className="h-6 w-6"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+            <div className="absolute bottom-4 right-4 flex gap-2">
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  void handleShare(
+                    capturedImage.blob,
+                    getCaptureFileName(
+                      getImageExtension(capturedImage.mimeType),
+                      capturedImage.capturedAt
+                    ),
+                    capturedImage.trackSettings
+                  );
+                }}
+                className="rounded-full bg-white/20 px-6 py-3 font-semibold backdrop-blur-sm hover:bg-white/30"
+              >
+                Share
+              </button>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  void handleExportSession();
+                }}
+                disabled={isExporting}
+                className="rounded-full bg-white/20 px-6 py-3 font-semibold backdrop-blur-sm hover:bg-white/30 disabled:opacity-50"
+              >
+                {isExporting ? "Exporting…" : "Export session"}
+              </button>
+              <a
+                href={capturedImage.url}
+                download={getCaptureFileName(
+                  getImageExtension(capturedImage.mimeType),
+                  capturedImage.capturedAt
+                )}
+                className="rounded-full bg-blue-600 px-6 py-3 font-semibold hover:bg-blue-700"
+                onClick={(e) => e.stopPropagation()}
+              >
+                Download
+              </a>
+            </div>
+          </div>
+        </div>
+      )}
+      {/* Recorded Video Preview Modal */}
+      {recordedVideo && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95">
+          <button
+            type="button"
+            aria-label="Close recording"
+            onClick={() => setRecordedVideo(null)}
+            className="absolute inset-0 cursor-default"
+          />
+          <div className="relative max-h-[90vh] max-w-[90vw]">
+            {/* Starts muted: the recording finishes asynchronously, outside the
+                tap that stopped it, where autoplay with sound is blocked */}
+            <video
+              src={recordedVideo.url}
+              controls
+              autoPlay
+              muted
+              playsInline
+              className="max-h-[90vh] max-w-[90vw]"
+            />
+            <span className="absolute left-4 top-4 rounded-full bg-black/60 px-3 py-1 text-xs font-semibold backdrop-blur-sm">
+              {recordedVideo.mimeType} ·{" "}
+              {formatRecordingTime(recordedVideo.durationMs)} ·{" "}
+              {(recordedVideo.blob.size / 1024 / 1024).toFixed(1)} MB
+            </span>
             <button
-              onClick={() => setCapturedImage("")}
+              type="button"
+              onClick={() => setRecordedVideo(null)}
               className="absolute right-4 top-4 rounded-full bg-white/20 p-2 backdrop-blur-sm hover:bg-white/30"
             >
               <svg
+                aria-hidden="true"
                 className="h-6 w-6"
                 fill="none"
                 stroke="currentColor"
@@ -2024,17 +3435,68 @@ export default function CameraPage() {
                 />
               </svg>
             </button>
-            <a
-              href={capturedImage}
-              download="camera-capture.png"
-              className="absolute bottom-4 right-4 rounded-full bg-blue-600 px-6 py-3 font-semibold hover:bg-blue-700"
-              onClick={(e) => e.stopPropagation()}
+            <div className="absolute bottom-16 right-4 flex gap-2">
+              <button
+                type="button"
+                onClick={() =>
+                  void handleShare(
+                    recordedVideo.blob,
+                    getCaptureFileName(
+                      getRecordingExtension(recordedVideo.mimeType),
+                      recordedVideo.recordedAt
+                    ),
+                    recordedVideo.trackSettings
+                  )
+                }
+                className="rounded-full bg-white/20 px-6 py-3 font-semibold backdrop-blur-sm hover:bg-white/30"
+              >
+                Share
+              </button>
+              <a
+                href={recordedVideo.url}
+                download={getCaptureFileName(
+                  getRecordingExtension(recordedVideo.mimeType),
+                  recordedVideo.recordedAt
+                )}
+                className="rounded-full bg-blue-600 px-6 py-3 font-semibold hover:bg-blue-700"
+              >
+                Download
+              </a>
+            </div>
+          </div>
+        </div>
+      )}
+      {/* Shared link validation errors */}
+      {linkErrors.length > 0 && (
+        <div className="fixed left-1/2 top-4 z-[60] w-[min(90vw,28rem)] -translate-x-1/2 rounded-xl border border-red-500/50 bg-red-950/90 p-3 backdrop-blur-sm">
+          <div className="flex items-start justify-between gap-3">
+            <div className="flex flex-col gap-1">
+              <span className="text-sm font-semibold text-red-300">
+                Some link settings could not be applied
+              </span>
+              <ul className="list-disc pl-4 text-xs text-red-200">
+                {linkErrors.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            </div>
+            <button
+              type="button"
+              onClick={() => setLinkErrors([])}
+              aria-label="Dismiss"
+              className="text-sm text-red-300 hover:text-red-200"
             >
-              Download
-            </a>
+              ✕
+            </button>
           </div>
         </div>
       )}
+      {/* Share status */}
+      {shareMessage && (
+        <div className="fixed bottom-28 left-1/2 z-[60] -translate-x-1/2 rounded-full bg-black/80 px-4 py-2 text-sm backdrop-blur-sm">
+          {shareMessage}
+        </div>
+      )}
     </main>
   );
 }
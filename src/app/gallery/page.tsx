@@ -0,0 +1,451 @@
+"use client";
+
+import { getCaptureFileName, getImageExtension } from "@bc/lib/camera";
+import { downloadBlob } from "@bc/lib/download";
+import {
+	type GalleryCapture,
+	type StorageUsage,
+	deleteCaptures,
+	exportCapturesAsZip,
+	formatBytes,
+	getStorageUsage,
+	listCaptures,
+} from "@bc/lib/gallery";
+import {
+	describeShareResult,
+	formatSettingsSummary,
+	shareFile,
+} from "@bc/lib/share";
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+
+// Track settings that are opaque identifiers rather than camera parameters
+const HIDDEN_TRACK_SETTINGS = new Set(["deviceId", "groupId"]);
+
+function formatValue(value: unknown): string {
+	if (typeof value === "number") {
+		return Number.isInteger(value) ? String(value) : value.toFixed(3);
+	}
+	if (Array.isArray(value)) {
+		return value.map(formatValue).join(", ");
+	}
+	if (value && typeof value === "object") {
+		return JSON.stringify(value);
+	}
+	return String(value);
+}
+
+function MetadataTable({
+	title,
+	values,
+}: {
+	title: string;
+	values: Record<string, unknown>;
+}) {
+	const rows = Object.entries(values).filter(
+		([key, value]) => value !== undefined && !HIDDEN_TRACK_SETTINGS.has(key),
+	);
+	if (rows.length === 0) return null;
+
+	return (
+		<div className="flex flex-col gap-1">
+			<h3 className="font-semibold text-blue-400 text-xs uppercase">{title}</h3>
+			<dl className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-xs">
+				{rows.map(([key, value]) => (
+					<div key={key} className="contents">
+						<dt className="text-white/60">{key}</dt>
+						<dd className="font-mono">{formatValue(value)}</dd>
+					</div>
+				))}
+			</dl>
+		</div>
+	);
+}
+
+export default function GalleryPage() {
+	const [captures, setCaptures] = useState<GalleryCapture[]>([]);
+	const [isLoading, setIsLoading] = useState(true);
+	const [error, setError] = useState("");
+	const [storage, setStorage] = useState<StorageUsage | null>(null);
+	const [isSelecting, setIsSelecting] = useState(false);
+	const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+	const [openId, setOpenId] = useState<string | null>(null);
+	const [isExporting, setIsExporting] = useState(false);
+	const [shareMessage, setShareMessage] = useState("");
+
+	const refresh = useCallback(async () => {
+		try {
+			setCaptures(await listCaptures());
+			setStorage(await getStorageUsage());
+		} catch (err) {
+			console.error("Failed to load gallery:", err);
+			setError("Could not open the gallery database");
+		} finally {
+			setIsLoading(false);
+		}
+	}, []);
+
+	useEffect(() => {
+		void refresh();
+	}, [refresh]);
+
+	// Thumbnail object URLs, released whenever the list changes
+	const [thumbnailUrls, setThumbnailUrls] = useState<Map<string, string>>(
+		new Map(),
+	);
+	useEffect(() => {
+		const urls = new Map(
+			captures.map((capture) => [
+				capture.id,
+				URL.createObjectURL(capture.thumbnail),
+			]),
+		);
+		setThumbnailUrls(urls);
+		return () => {
+			for (const url of urls.values()) URL.revokeObjectURL(url);
+		};
+	}, [captures]);
+
+	const openIndex = captures.findIndex((capture) => capture.id === openId);
+	const openCapture = openIndex >= 0 ? captures[openIndex] : undefined;
+
+	const [openUrl, setOpenUrl] = useState("");
+	useEffect(() => {
+		if (!openCapture) return;
+		const url = URL.createObjectURL(openCapture.blob);
+		setOpenUrl(url);
+		return () => URL.revokeObjectURL(url);
+	}, [openCapture]);
+
+	const toggleSelected = (id: string) => {
+		setSelectedIds((previous) => {
+			const next = new Set(previous);
+			if (next.has(id)) {
+				next.delete(id);
+			} else {
+				next.add(id);
+			}
+			return next;
+		});
+	};
+
+	const handleDelete = async (ids: string[]) => {
+		if (ids.length === 0) return;
+		if (
+			!window.confirm(
+				ids.length === 1
+					? "Delete this capture?"
+					: `Delete ${ids.length} captures?`,
+			)
+		) {
+			return;
+		}
+
+		try {
+			await deleteCaptures(ids);
+			setSelectedIds(new Set());
+			if (openId && ids.includes(openId)) setOpenId(null);
+			await refresh();
+		} catch (err) {
+			console.error("Failed to delete captures:", err);
+			setError("Could not delete captures");
+		}
+	};
+
+	const handleExport = async (ids: Set<string>) => {
+		// Export oldest first so the archive reads like the session
+		const selected = captures
+			.filter((capture) => ids.has(capture.id))
+			.reverse();
+		if (selected.length === 0) return;
+
+		setIsExporting(true);
+		try {
+			const archive = await exportCapturesAsZip(selected);
+			downloadBlob(
+				archive,
+				getCaptureFileName("zip", Date.now(), "browsercam-export"),
+			);
+		} catch (err) {
+			console.error("Failed to export captures:", err);
+			setError("Could not export captures");
+		} finally {
+			setIsExporting(false);
+		}
+	};
+
+	// Hide the share status message after a moment
+	useEffect(() => {
+		if (!shareMessage) return;
+		const timeoutId = setTimeout(() => setShareMessage(""), 2500);
+		return () => clearTimeout(timeoutId);
+	}, [shareMessage]);
+
+	const handleShare = async (capture: GalleryCapture) => {
+		try {
+			const result = await shareFile({
+				file: new File(
+					[capture.blob],
+					getCaptureFileName(
+						getImageExtension(capture.mimeType),
+						capture.capturedAt,
+					),
+					{ type: capture.mimeType },
+				),
+				title: "BrowserCam",
+				text: formatSettingsSummary(capture.trackSettings, capture.deviceLabel),
+			});
+			setShareMessage(describeShareResult(result) ?? "");
+		} catch (err) {
+			console.error("Failed to share capture:", err);
+			setShareMessage("Sharing failed");
+		}
+	};
+
+	const totalSize = captures.reduce(
+		(size, capture) => size + capture.blob.size,
+		0,
+	);
+
+	return (
+		<main className="min-h-dvh bg-black text-white">
+			{/* Header */}
+			<header className="sticky top-0 z-10 flex flex-col gap-2 bg-black/80 p-3 backdrop-blur-lg">
+				<div className="flex items-center justify-between gap-2">
+					<Link
+						href="/camera"
+						className="rounded-lg bg-white/10 px-3 py-2 text-sm hover:bg-white/20"
+					>
+						← Camera
+					</Link>
+					<h1 className="font-semibold text-lg">
+						Gallery{" "}
+						<span className="text-sm text-white/60">({captures.length})</span>
+					</h1>
+					<button
+						type="button"
+						onClick={() => {
+							setIsSelecting(!isSelecting);
+							setSelectedIds(new Set());
+						}}
+						disabled={captures.length === 0}
+						className="rounded-lg bg-white/10 px-3 py-2 text-sm hover:bg-white/20 disabled:opacity-40"
+					>
+						{isSelecting ? "Cancel" : "Select"}
+					</button>
+				</div>
+
+				{storage && (
+					<div className="flex flex-col gap-1">
+						<div className="h-1 w-full overflow-hidden rounded-full bg-white/10">
+							<div
+								className="h-full bg-blue-500"
+								style={{
+									width: `${Math.min(100, (storage.usage / Math.max(storage.quota, 1)) * 100)}%`,
+								}}
+							/>
+						</div>
+						<span className="text-white/60 text-xs">
+							Captures {formatBytes(totalSize)} · Origin uses{" "}
+							{formatBytes(storage.usage)} of {formatBytes(storage.quota)}
+							{storage.persisted ? " · persistent" : ""}
+						</span>
+					</div>
+				)}
+
+				{isSelecting && (
+					<div className="flex items-center justify-between gap-2">
+						<button
+							type="button"
+							onClick={() =>
+								setSelectedIds(
+									selectedIds.size === captures.length
+										? new Set()
+										: new Set(captures.map((capture) => capture.id)),
+								)
+							}
+							className="rounded-lg bg-white/10 px-3 py-2 text-sm hover:bg-white/20"
+						>
+							{selectedIds.size === captures.length
+								? "Select none"
+								: "Select all"}
+						</button>
+						<div className="flex gap-2">
+							<button
+								type="button"
+								onClick={() => void handleExport(selectedIds)}
+								disabled={selectedIds.size === 0 || isExporting}
+								className="rounded-lg bg-blue-600 px-3 py-2 font-semibold text-sm hover:bg-blue-700 disabled:opacity-40"
+							>
+								{isExporting
+									? "Exporting…"
+									: `Export ZIP (${selectedIds.size})`}
+							</button>
+							<button
+								type="button"
+								onClick={() => void handleDelete([...selectedIds])}
+								disabled={selectedIds.size === 0}
+								className="rounded-lg bg-red-600 px-3 py-2 font-semibold text-sm hover:bg-red-700 disabled:opacity-40"
+							>
+								Delete ({selectedIds.size})
+							</button>
+						</div>
+					</div>
+				)}
+			</header>
+
+			{error && (
+				<p className="m-3 rounded-lg bg-red-600/20 p-3 text-red-300 text-sm">
+					{error}
+				</p>
+			)}
+
+			{/* Thumbnail grid */}
+			{isLoading ? (
+				<p className="p-6 text-center text-white/60">Loading captures…</p>
+			) : captures.length === 0 ? (
+				<p className="p-6 text-center text-white/60">
+					No captures yet. Photos you take are saved here automatically.
+				</p>
+			) : (
+				<div className="grid grid-cols-3 gap-1 p-1 sm:grid-cols-4 lg:grid-cols-6">
+					{captures.map((capture) => {
+						const isSelected = selectedIds.has(capture.id);
+						return (
+							<button
+								type="button"
+								key={capture.id}
+								onClick={() =>
+									isSelecting
+										? toggleSelected(capture.id)
+										: setOpenId(capture.id)
+								}
+								className={`relative aspect-square overflow-hidden bg-white/5 ${
+									isSelected ? "ring-4 ring-blue-500 ring-inset" : ""
+								}`}
+							>
+								<img
+									src={thumbnailUrls.get(capture.id)}
+									alt={new Date(capture.capturedAt).toLocaleString()}
+									className="h-full w-full object-cover"
+								/>
+								{isSelecting && (
+									<span
+										className={`absolute top-1 right-1 flex h-6 w-6 items-center justify-center rounded-full border-2 border-white text-xs ${
+											isSelected ? "bg-blue-600" : "bg-black/40"
+										}`}
+									>
+										{isSelected ? "✓" : ""}
+									</span>
+								)}
+							</button>
+						);
+					})}
+				</div>
+			)}
+
+			{/* Full-screen viewer */}
+			{openCapture && (
+				<div className="fixed inset-0 z-50 flex flex-col bg-black/95 lg:flex-row">
+					<div className="relative flex min-h-0 flex-1 items-center justify-center p-2">
+						{openUrl && (
+							<img
+								src={openUrl}
+								alt="Capture"
+								className="max-h-full max-w-full object-contain"
+							/>
+						)}
+						{openIndex > 0 && (
+							<button
+								type="button"
+								onClick={() => setOpenId(captures[openIndex - 1]?.id ?? null)}
+								className="-translate-y-1/2 absolute top-1/2 left-2 rounded-full bg-white/20 px-3 py-2 backdrop-blur-sm hover:bg-white/30"
+							>
+								‹
+							</button>
+						)}
+						{openIndex < captures.length - 1 && (
+							<button
+								type="button"
+								onClick={() => setOpenId(captures[openIndex + 1]?.id ?? null)}
+								className="-translate-y-1/2 absolute top-1/2 right-2 rounded-full bg-white/20 px-3 py-2 backdrop-blur-sm hover:bg-white/30"
+							>
+								›
+							</button>
+						)}
+					</div>
+
+					<aside className="flex max-h-[40vh] flex-col gap-3 overflow-y-auto bg-white/5 p-4 lg:max-h-none lg:w-80">
+						<div className="flex items-center justify-between">
+							<span className="font-semibold text-sm">
+								{new Date(openCapture.capturedAt).toLocaleString()}
+							</span>
+							<button
+								type="button"
+								onClick={() => setOpenId(null)}
+								className="rounded-full bg-white/20 px-3 py-1 text-sm hover:bg-white/30"
+							>
+								Close
+							</button>
+						</div>
+
+						<MetadataTable
+							title="Capture"
+							values={{
+								lens: openCapture.deviceLabel,
+								path:
+									openCapture.source === "image-capture"
+										? "Sensor still"
+										: "Video frame",
+								resolution: `${openCapture.width}×${openCapture.height}`,
+								format: openCapture.mimeType,
+								size: formatBytes(openCapture.blob.size),
+							}}
+						/>
+						<MetadataTable
+							title="Actual track settings"
+							values={{ ...openCapture.trackSettings }}
+						/>
+						<MetadataTable
+							title="Requested settings"
+							values={{ ...openCapture.settings }}
+						/>
+
+						<div className="mt-auto flex gap-2">
+							<button
+								type="button"
+								onClick={() => void handleShare(openCapture)}
+								className="rounded-lg bg-white/20 px-4 py-2 font-semibold text-sm hover:bg-white/30"
+							>
+								Share
+							</button>
+							<a
+								href={openUrl}
+								download={getCaptureFileName(
+									getImageExtension(openCapture.mimeType),
+									openCapture.capturedAt,
+								)}
+								className="flex-1 rounded-lg bg-blue-600 px-4 py-2 text-center font-semibold text-sm hover:bg-blue-700"
+							>
+								Download
+							</a>
+							<button
+								type="button"
+								onClick={() => void handleDelete([openCapture.id])}
+								className="rounded-lg bg-red-600 px-4 py-2 font-semibold text-sm hover:bg-red-700"
+							>
+								Delete
+							</button>
+						</div>
+					</aside>
+				</div>
+			)}
+			{/* Share status */}
+			{shareMessage && (
+				<div className="-translate-x-1/2 fixed bottom-6 left-1/2 z-[60] rounded-full bg-black/80 px-4 py-2 text-sm backdrop-blur-sm">
+					{shareMessage}
+				</div>
+			)}
+		</main>
+	);
+}
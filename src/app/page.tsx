@@ -1,5 +1,5 @@
 import Link from "next/link";
-import { FaCamera, FaGithub } from "react-icons/fa";
+import { FaCamera, FaClipboardList, FaGithub } from "react-icons/fa";
 
 export default function HomePage() {
 	return (
@@ -22,6 +22,13 @@ export default function HomePage() {
 						<FaCamera />
 						Start Camera
 					</Link>
+					<Link
+						href="/report"
+						className="flex items-center gap-2 rounded-full bg-white/10 px-6 py-3 font-semibold text-white no-underline transition-all hover:bg-white/20 hover:scale-105"
+					>
+						<FaClipboardList />
+						Capability Report
+					</Link>
 					<Link
 						href="https://github.com/Kuchasz/browsercam"
 						className="flex items-center gap-2 rounded-full bg-white/10 px-6 py-3 font-semibold text-white no-underline transition-all hover:bg-white/20 hover:scale-105"
@@ -0,0 +1,219 @@
+"use client";
+
+import {
+	type CapabilityReport,
+	buildComparisonMatrix,
+	createCapabilityReport,
+	getComparisonColumns,
+	parseCapabilityReport,
+} from "@bc/lib/report";
+import Link from "next/link";
+import { type ChangeEvent, useMemo, useState } from "react";
+
+interface LoadedReport {
+	/** "This device" or the name of the loaded file */
+	source: string;
+	report: CapabilityReport;
+}
+
+export default function CompareReportsPage() {
+	const [reports, setReports] = useState<LoadedReport[]>([]);
+	const [isProbing, setIsProbing] = useState(false);
+	const [onlyDifferences, setOnlyDifferences] = useState(false);
+	const [errors, setErrors] = useState<string[]>([]);
+
+	const columns = useMemo(
+		() => getComparisonColumns(reports.map(({ report }) => report)),
+		[reports],
+	);
+	const rows = useMemo(() => buildComparisonMatrix(columns), [columns]);
+	const visibleRows = onlyDifferences
+		? rows.filter((row) => row.differs)
+		: rows;
+
+	const handleProbe = async () => {
+		setIsProbing(true);
+		try {
+			const report = await createCapabilityReport();
+			setReports((prev) => [
+				{ source: "This device", report },
+				...prev.filter(({ source }) => source !== "This device"),
+			]);
+		} catch (err) {
+			console.error("Failed to probe cameras:", err);
+			setErrors((prev) => [
+				...prev,
+				`This device: ${err instanceof Error ? err.message : "failed to probe cameras"}`,
+			]);
+		} finally {
+			setIsProbing(false);
+		}
+	};
+
+	const handleFiles = async (event: ChangeEvent<HTMLInputElement>) => {
+		const files = [...(event.target.files ?? [])];
+		event.target.value = "";
+
+		const loaded: LoadedReport[] = [];
+		const failed: string[] = [];
+		for (const file of files) {
+			try {
+				loaded.push({
+					source: file.name,
+					report: parseCapabilityReport(await file.text()),
+				});
+			} catch (err) {
+				failed.push(
+					`${file.name}: ${err instanceof Error ? err.message : "could not be read"}`,
+				);
+			}
+		}
+
+		setReports((prev) => [
+			...prev.filter(({ source }) => !loaded.some((l) => l.source === source)),
+			...loaded,
+		]);
+		setErrors(failed);
+	};
+
+	return (
+		<main className="min-h-dvh bg-black text-white">
+			{/* Header */}
+			<header className="sticky top-0 left-0 z-20 flex flex-col gap-2 bg-black/80 p-3 backdrop-blur-lg">
+				<div className="flex items-center justify-between gap-2">
+					<Link
+						href="/report"
+						className="rounded-lg bg-white/10 px-3 py-2 text-sm hover:bg-white/20"
+					>
+						← Report
+					</Link>
+					<h1 className="font-semibold text-lg">Compare Lenses</h1>
+					<span className="w-20" />
+				</div>
+				<div className="flex flex-wrap items-center gap-2">
+					<button
+						type="button"
+						onClick={() => void handleProbe()}
+						disabled={isProbing}
+						className="rounded-lg bg-blue-600 px-3 py-2 font-semibold text-sm hover:bg-blue-700 disabled:opacity-40"
+					>
+						{isProbing ? "Probing…" : "Probe this device"}
+					</button>
+					<label className="cursor-pointer rounded-lg bg-white/10 px-3 py-2 text-sm hover:bg-white/20">
+						Load report JSON…
+						<input
+							type="file"
+							accept="application/json,.json"
+							multiple
+							onChange={(e) => void handleFiles(e)}
+							className="hidden"
+						/>
+					</label>
+					<label className="flex items-center gap-2 text-sm">
+						<input
+							type="checkbox"
+							checked={onlyDifferences}
+							onChange={(e) => setOnlyDifferences(e.target.checked)}
+							className="accent-blue-500"
+						/>
+						Only differences
+					</label>
+				</div>
+				{reports.length > 0 && (
+					<div className="flex flex-wrap gap-2">
+						{reports.map(({ source, report }) => (
+							<span
+								key={source}
+								className="flex items-center gap-2 rounded-full bg-white/10 px-3 py-1 text-xs"
+							>
+								{source} · {report.lenses.length} lenses
+								<button
+									type="button"
+									onClick={() =>
+										setReports((prev) =>
+											prev.filter((r) => r.source !== source),
+										)
+									}
+									aria-label={`Remove ${source}`}
+									className="text-white/60 hover:text-white"
+								>
+									✕
+								</button>
+							</span>
+						))}
+					</div>
+				)}
+			</header>
+
+			{errors.map((message) => (
+				<p
+					key={message}
+					className="m-3 rounded-lg bg-red-600/20 p-3 text-red-300 text-sm"
+				>
+					{message}
+				</p>
+			))}
+
+			{columns.length === 0 ? (
+				<p className="p-6 text-center text-sm text-white/60">
+					Probe the cameras of this device or load reports exported from other
+					phones to compare their lenses.
+				</p>
+			) : (
+				<div className="overflow-x-auto p-3">
+					<table className="border-collapse text-xs">
+						<thead>
+							<tr>
+								<th className="sticky left-0 border border-white/10 bg-neutral-900 px-2 py-1 text-left">
+									Property
+								</th>
+								{columns.map((column) => (
+									<th
+										key={column.id}
+										className="border border-white/10 bg-white/5 px-2 py-1 text-left align-bottom"
+									>
+										<span className="block font-normal text-white/60">
+											{column.device}
+										</span>
+										{column.lens}
+									</th>
+								))}
+							</tr>
+						</thead>
+						<tbody>
+							{visibleRows.map((row) => (
+								<tr
+									key={row.property}
+									className={row.differs ? "" : "opacity-60"}
+								>
+									<td
+										className={`sticky left-0 border border-white/10 bg-neutral-900 px-2 py-1 font-mono ${
+											row.differs ? "text-yellow-300" : "text-white/70"
+										}`}
+									>
+										{row.property}
+									</td>
+									{columns.map((column, i) => (
+										<td
+											key={column.id}
+											className={`whitespace-nowrap border border-white/10 px-2 py-1 font-mono ${
+												row.outliers[i]
+													? "bg-yellow-500/20 text-yellow-200"
+													: ""
+											}`}
+										>
+											{row.values[i]}
+										</td>
+									))}
+								</tr>
+							))}
+						</tbody>
+					</table>
+					<p className="mt-2 text-white/60 text-xs">
+						Highlighted cells differ from the most common value in their row.
+					</p>
+				</div>
+			)}
+		</main>
+	);
+}
@@ -0,0 +1,217 @@
+"use client";
+
+import { getCaptureFileName } from "@bc/lib/camera";
+import { downloadBlob } from "@bc/lib/download";
+import {
+	type CapabilityReport,
+	createCapabilityReport,
+	getReportTables,
+	reportToHtml,
+	reportToJson,
+	reportToMarkdown,
+} from "@bc/lib/report";
+import Link from "next/link";
+import { useState } from "react";
+
+const EXPORT_FORMATS = [
+	{
+		label: "JSON",
+		extension: "json",
+		mimeType: "application/json",
+		render: reportToJson,
+	},
+	{
+		label: "Markdown",
+		extension: "md",
+		mimeType: "text/markdown",
+		render: reportToMarkdown,
+	},
+	{
+		label: "HTML",
+		extension: "html",
+		mimeType: "text/html",
+		render: reportToHtml,
+	},
+];
+
+export default function ReportPage() {
+	const [report, setReport] = useState<CapabilityReport | null>(null);
+	const [progress, setProgress] = useState<{
+		done: number;
+		total: number;
+	} | null>(null);
+	const [error, setError] = useState("");
+
+	const handleGenerate = async () => {
+		setError("");
+		setProgress({ done: 0, total: 0 });
+		try {
+			setReport(
+				await createCapabilityReport((done, total) =>
+					setProgress({ done, total }),
+				),
+			);
+		} catch (err) {
+			console.error("Failed to create capability report:", err);
+			setError(
+				err instanceof Error
+					? err.message
+					: "Failed to create capability report",
+			);
+		} finally {
+			setProgress(null);
+		}
+	};
+
+	const handleExport = (format: (typeof EXPORT_FORMATS)[number]) => {
+		if (!report) return;
+		downloadBlob(
+			new Blob([format.render(report)], { type: format.mimeType }),
+			getCaptureFileName(
+				format.extension,
+				new Date(report.generatedAt),
+				"browsercam-report",
+			),
+		);
+	};
+
+	return (
+		<main className="min-h-dvh bg-black text-white">
+			{/* Header */}
+			<header className="sticky top-0 z-10 flex items-center justify-between gap-2 bg-black/80 p-3 backdrop-blur-lg">
+				<Link
+					href="/camera"
+					className="rounded-lg bg-white/10 px-3 py-2 text-sm hover:bg-white/20"
+				>
+					← Camera
+				</Link>
+				<h1 className="font-semibold text-lg">Capability Report</h1>
+				<button
+					type="button"
+					onClick={() => void handleGenerate()}
+					disabled={progress !== null}
+					className="rounded-lg bg-blue-600 px-3 py-2 font-semibold text-sm hover:bg-blue-700 disabled:opacity-40"
+				>
+					{progress
+						? `Probing ${Math.min(progress.done + 1, progress.total)}/${progress.total}…`
+						: report
+							? "Run again"
+							: "Generate"}
+				</button>
+			</header>
+
+			{error && (
+				<p className="m-3 rounded-lg bg-red-600/20 p-3 text-red-300 text-sm">
+					{error}
+				</p>
+			)}
+
+			{!report && !progress && (
+				<div className="flex flex-col items-center gap-3 p-6 text-center text-sm text-white/60">
+					<p>
+						Opens every camera on this device in turn and records its
+						capabilities and default settings. Grant camera access when asked.
+					</p>
+					<Link
+						href="/report/compare"
+						className="rounded-lg bg-white/10 px-3 py-2 text-white hover:bg-white/20"
+					>
+						Compare lenses and saved reports →
+					</Link>
+				</div>
+			)}
+
+			{report && (
+				<div className="flex flex-col gap-6 p-3">
+					<div className="flex flex-wrap items-center gap-2">
+						<span className="text-sm text-white/60">Export as</span>
+						{EXPORT_FORMATS.map((format) => (
+							<button
+								key={format.extension}
+								type="button"
+								onClick={() => handleExport(format)}
+								className="rounded-lg bg-white/10 px-3 py-2 text-sm hover:bg-white/20"
+							>
+								{format.label}
+							</button>
+						))}
+						<Link
+							href="/report/compare"
+							className="ml-auto rounded-lg bg-white/10 px-3 py-2 text-sm hover:bg-white/20"
+						>
+							Compare →
+						</Link>
+					</div>
+
+					<dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+						<dt className="text-white/60">User agent</dt>
+						<dd className="break-all font-mono">
+							{report.environment.userAgent}
+						</dd>
+						<dt className="text-white/60">Platform</dt>
+						<dd className="font-mono">{report.environment.platform}</dd>
+						<dt className="text-white/60">Lenses</dt>
+						<dd className="font-mono">{report.lenses.length}</dd>
+					</dl>
+
+					{report.lenses
+						.filter((lens) => lens.error)
+						.map((lens) => (
+							<p
+								key={lens.deviceId}
+								className="rounded-lg bg-red-600/20 p-3 text-red-300 text-sm"
+							>
+								{lens.label || lens.deviceId}: {lens.error}
+							</p>
+						))}
+
+					{getReportTables(report).map(
+						({ title, columns, deviceIds, rows }) => (
+							<section key={title} className="flex flex-col gap-2">
+								<h2 className="font-semibold text-blue-400 text-xs uppercase">
+									{title}
+								</h2>
+								<div className="overflow-x-auto">
+									<table className="w-full border-collapse text-xs">
+										<thead>
+											<tr>
+												<th className="border border-white/10 bg-white/5 px-2 py-1 text-left font-semibold">
+													{columns[0]}
+												</th>
+												{deviceIds.map((deviceId, i) => (
+													<th
+														key={deviceId}
+														className="border border-white/10 bg-white/5 px-2 py-1 text-left font-semibold"
+													>
+														{columns[i + 1]}
+													</th>
+												))}
+											</tr>
+										</thead>
+										<tbody>
+											{rows.map(([property, ...values]) => (
+												<tr key={property}>
+													<td className="border border-white/10 px-2 py-1 font-mono text-white/70">
+														{property}
+													</td>
+													{deviceIds.map((deviceId, i) => (
+														<td
+															key={deviceId}
+															className="border border-white/10 px-2 py-1 font-mono"
+														>
+															{values[i]}
+														</td>
+													))}
+												</tr>
+											))}
+										</tbody>
+									</table>
+								</div>
+							</section>
+						),
+					)}
+				</div>
+			)}
+		</main>
+	);
+}
@@ -50,10 +50,34 @@ declare global {
     focusDistance?: number;
     focusMode?: string;
     iso?: number;
+    pointsOfInterest?: PointOfInterest[];
     torch?: boolean;
     whiteBalanceMode?: string;
     zoom?: number;
   }
+
+  interface MediaTrackSettings {
+    colorTemperature?: number;
+    exposureCompensation?: number;
+    exposureMode?: string;
+    exposureTime?: number;
+    focusDistance?: number;
+    focusMode?: string;
+    iso?: number;
+    pointsOfInterest?: PointOfInterest[];
+    torch?: boolean;
+    whiteBalanceMode?: string;
+    zoom?: number;
+  }
+}
+
+/**
+ * Point in the video frame, normalized so (0, 0) is the top left corner
+ * and (1, 1) the bottom right
+ */
+export interface PointOfInterest {
+  x: number;
+  y: number;
 }
 
 export interface CameraCapabilities {
@@ -99,6 +123,8 @@ export interface CameraCapabilities {
     max: number;
     step: number;
   };
+  /** Whether the camera accepts focus and metering points */
+  pointsOfInterest?: boolean;
   resizeMode?: string[];
   torch?: boolean;
   whiteBalanceMode?: string[];
@@ -124,6 +150,7 @@ export interface CameraSettings {
   frameRate?: number;
   height?: number;
   iso?: number;
+  pointsOfInterest?: PointOfInterest[];
   torch?: boolean;
   whiteBalanceMode?: string;
   width?: number;
@@ -161,143 +188,347 @@ export async function isCameraAvailable(): Promise<boolean> {
 }
 
 /**
- * Get camera capabilities for the current device
- * @param deviceId - Optional specific camera device ID
- * @returns Promise<CameraCapabilities> - Object containing camera capabilities
+ * Map raw track capabilities to the capabilities the app understands
+ * @param capabilities - Result of track.getCapabilities()
+ * @param settings - Result of track.getSettings()
+ * @returns CameraCapabilities - Capabilities with complete ranges only
  */
-export async function getCameraCapabilities(
-  deviceId?: string
-): Promise<CameraCapabilities> {
-  try {
-    const constraints: MediaStreamConstraints = {
-      video: deviceId ? { deviceId: { exact: deviceId } } : true,
+function toCameraCapabilities(
+  capabilities: MediaTrackCapabilities,
+  settings: MediaTrackSettings
+): CameraCapabilities {
+  const cameraCapabilities: CameraCapabilities = {};
+
+  if (
+    capabilities.frameRate &&
+    capabilities.frameRate.min !== undefined &&
+    capabilities.frameRate.max !== undefined
+  ) {
+    cameraCapabilities.frameRate = {
+      min: capabilities.frameRate.min,
+      max: capabilities.frameRate.max,
     };
+  }
 
-    const stream = await navigator.mediaDevices.getUserMedia(constraints);
-    const track = stream.getVideoTracks()[0];
+  if (capabilities.exposureMode) {
+    cameraCapabilities.exposureMode = capabilities.exposureMode;
+  }
 
-    if (!track) {
-      throw new Error("No video track found");
-    }
+  if (capabilities.focusMode) {
+    cameraCapabilities.focusMode = capabilities.focusMode;
+  }
 
-    const capabilities = track.getCapabilities();
+  if (capabilities.iso) {
+    cameraCapabilities.iso = capabilities.iso;
+  }
 
-    console.log("capabilities", capabilities);
-    const settings = track.getSettings();
+  if (capabilities.whiteBalanceMode) {
+    cameraCapabilities.whiteBalanceMode = capabilities.whiteBalanceMode;
+  }
 
-    // Stop the track after getting capabilities
-    track.stop();
+  if (capabilities.zoom) {
+    cameraCapabilities.zoom = capabilities.zoom;
+  }
 
-    const cameraCapabilities: CameraCapabilities = {};
+  if (
+    capabilities.aspectRatio &&
+    capabilities.aspectRatio.min !== undefined &&
+    capabilities.aspectRatio.max !== undefined
+  ) {
+    cameraCapabilities.aspectRatio = {
+      min: capabilities.aspectRatio.min,
+      max: capabilities.aspectRatio.max,
+    };
+  }
 
-    if (
-      capabilities.frameRate &&
-      capabilities.frameRate.min !== undefined &&
-      capabilities.frameRate.max !== undefined
-    ) {
-      cameraCapabilities.frameRate = {
-        min: capabilities.frameRate.min,
-        max: capabilities.frameRate.max,
-      };
-    }
+  if (capabilities.colorTemperature) {
+    cameraCapabilities.colorTemperature = capabilities.colorTemperature;
+  }
 
-    if (capabilities.exposureMode) {
-      cameraCapabilities.exposureMode = capabilities.exposureMode;
-    }
+  if (capabilities.deviceId) {
+    cameraCapabilities.deviceId = capabilities.deviceId;
+  }
 
-    if (capabilities.focusMode) {
-      cameraCapabilities.focusMode = capabilities.focusMode;
-    }
+  if (capabilities.exposureCompensation) {
+    cameraCapabilities.exposureCompensation = capabilities.exposureCompensation;
+  }
 
-    if (capabilities.iso) {
-      cameraCapabilities.iso = capabilities.iso;
-    }
+  if (capabilities.exposureTime) {
+    cameraCapabilities.exposureTime = capabilities.exposureTime;
+  }
 
-    if (capabilities.whiteBalanceMode) {
-      cameraCapabilities.whiteBalanceMode = capabilities.whiteBalanceMode;
-    }
+  if (capabilities.facingMode) {
+    cameraCapabilities.facingMode = capabilities.facingMode;
+  }
 
-    if (capabilities.zoom) {
-      cameraCapabilities.zoom = capabilities.zoom;
-    }
+  if (capabilities.focusDistance) {
+    cameraCapabilities.focusDistance = capabilities.focusDistance;
+  }
 
-    if (
-      capabilities.aspectRatio &&
-      capabilities.aspectRatio.min !== undefined &&
-      capabilities.aspectRatio.max !== undefined
-    ) {
-      cameraCapabilities.aspectRatio = {
-        min: capabilities.aspectRatio.min,
-        max: capabilities.aspectRatio.max,
-      };
-    }
+  if (capabilities.groupId) {
+    cameraCapabilities.groupId = capabilities.groupId;
+  }
 
-    if (capabilities.colorTemperature) {
-      cameraCapabilities.colorTemperature = capabilities.colorTemperature;
-    }
+  if (
+    capabilities.height &&
+    capabilities.height.min !== undefined &&
+    capabilities.height.max !== undefined
+  ) {
+    cameraCapabilities.height = {
+      min: capabilities.height.min,
+      max: capabilities.height.max,
+    };
+  }
 
-    if (capabilities.deviceId) {
-      cameraCapabilities.deviceId = capabilities.deviceId;
-    }
+  // Points of interest have no capability entry; cameras that accept
+  // them report the current points in their settings
+  if (settings.pointsOfInterest !== undefined) {
+    cameraCapabilities.pointsOfInterest = true;
+  }
 
-    if (capabilities.exposureCompensation) {
-      cameraCapabilities.exposureCompensation =
-        capabilities.exposureCompensation;
-    }
+  if (capabilities.resizeMode) {
+    cameraCapabilities.resizeMode = capabilities.resizeMode;
+  }
 
-    if (capabilities.exposureTime) {
-      cameraCapabilities.exposureTime = capabilities.exposureTime;
-    }
+  if (capabilities.torch !== undefined) {
+    cameraCapabilities.torch = capabilities.torch;
+  }
 
-    if (capabilities.facingMode) {
-      cameraCapabilities.facingMode = capabilities.facingMode;
-    }
+  if (
+    capabilities.width &&
+    capabilities.width.min !== undefined &&
+    capabilities.width.max !== undefined
+  ) {
+    cameraCapabilities.width = {
+      min: capabilities.width.min,
+      max: capabilities.width.max,
+    };
+  }
 
-    if (capabilities.focusDistance) {
-      cameraCapabilities.focusDistance = capabilities.focusDistance;
-    }
+  return cameraCapabilities;
+}
 
-    if (capabilities.groupId) {
-      cameraCapabilities.groupId = capabilities.groupId;
-    }
+export interface CameraProbe {
+  capabilities: CameraCapabilities;
+  /** Everything the track reports, including keys the app does not use */
+  rawCapabilities: MediaTrackCapabilities;
+  /** Settings the track starts with when opened without constraints */
+  defaultSettings: MediaTrackSettings;
+}
 
-    if (
-      capabilities.height &&
-      capabilities.height.min !== undefined &&
-      capabilities.height.max !== undefined
-    ) {
-      cameraCapabilities.height = {
-        min: capabilities.height.min,
-        max: capabilities.height.max,
-      };
-    }
+/**
+ * Open a camera briefly to read its capabilities and default settings
+ * @param deviceId - Optional specific camera device ID
+ * @returns Promise<CameraProbe> - Capabilities and default settings
+ */
+export async function probeCamera(deviceId?: string): Promise<CameraProbe> {
+  const constraints: MediaStreamConstraints = {
+    video: deviceId ? { deviceId: { exact: deviceId } } : true,
+  };
 
-    if (capabilities.resizeMode) {
-      cameraCapabilities.resizeMode = capabilities.resizeMode;
-    }
+  const stream = await navigator.mediaDevices.getUserMedia(constraints);
+  const track = stream.getVideoTracks()[0];
 
-    if (capabilities.torch !== undefined) {
-      cameraCapabilities.torch = capabilities.torch;
-    }
+  if (!track) {
+    stopCamera(stream);
+    throw new Error("No video track found");
+  }
 
-    if (
-      capabilities.width &&
-      capabilities.width.min !== undefined &&
-      capabilities.width.max !== undefined
-    ) {
-      cameraCapabilities.width = {
-        min: capabilities.width.min,
-        max: capabilities.width.max,
-      };
-    }
+  const rawCapabilities = track.getCapabilities();
+  const defaultSettings = track.getSettings();
+
+  // Stop the track after getting capabilities
+  stopCamera(stream);
 
-    return cameraCapabilities;
+  return {
+    capabilities: toCameraCapabilities(rawCapabilities, defaultSettings),
+    rawCapabilities,
+    defaultSettings,
+  };
+}
+
+/**
+ * Get camera capabilities for the current device
+ * @param deviceId - Optional specific camera device ID
+ * @returns Promise<CameraCapabilities> - Object containing camera capabilities
+ */
+export async function getCameraCapabilities(
+  deviceId?: string
+): Promise<CameraCapabilities> {
+  try {
+    const { capabilities, rawCapabilities } = await probeCamera(deviceId);
+    console.log("capabilities", rawCapabilities);
+    return capabilities;
   } catch (error) {
     console.error("Error getting camera capabilities:", error);
     throw error;
   }
 }
 
+export interface Resolution {
+  width: number;
+  height: number;
+}
+
+/**
+ * Standard video sizes plus common sensor-native 4:3 modes, largest first
+ */
+export const STANDARD_RESOLUTIONS: Resolution[] = [
+  { width: 4096, height: 2160 }, // DCI 4K
+  { width: 4032, height: 3024 }, // 12 MP 4:3
+  { width: 4000, height: 3000 }, // 12 MP 4:3
+  { width: 3840, height: 2160 }, // UHD 4K
+  { width: 3264, height: 2448 }, // 8 MP 4:3
+  { width: 2592, height: 1944 }, // 5 MP 4:3
+  { width: 2560, height: 1440 }, // QHD
+  { width: 2560, height: 1080 }, // 21:9
+  { width: 2048, height: 1536 }, // QXGA
+  { width: 1920, height: 1440 },
+  { width: 1920, height: 1080 }, // Full HD
+  { width: 1600, height: 1200 }, // UXGA
+  { width: 1440, height: 1440 },
+  { width: 1440, height: 1080 },
+  { width: 1280, height: 960 },
+  { width: 1280, height: 720 }, // HD
+  { width: 1080, height: 1080 },
+  { width: 1024, height: 768 }, // XGA
+  { width: 960, height: 540 }, // qHD
+  { width: 800, height: 600 }, // SVGA
+  { width: 720, height: 720 },
+  { width: 640, height: 480 }, // VGA
+  { width: 640, height: 360 },
+  { width: 320, height: 240 }, // QVGA
+];
+
+const RESOLUTION_CACHE_KEY = "browsercam:resolutions";
+
+// Bump when the probing logic changes so stale lists are re-probed
+const RESOLUTION_CACHE_VERSION = 1;
+
+interface ResolutionCache {
+  version: number;
+  devices: Record<string, Resolution[]>;
+}
+
+function readResolutionCache(): ResolutionCache {
+  try {
+    const stored = localStorage.getItem(RESOLUTION_CACHE_KEY);
+    const cache = stored ? (JSON.parse(stored) as ResolutionCache) : null;
+    if (cache?.version === RESOLUTION_CACHE_VERSION) {
+      return cache;
+    }
+  } catch (error) {
+    console.warn("Could not read resolution cache:", error);
+  }
+  return { version: RESOLUTION_CACHE_VERSION, devices: {} };
+}
+
+/**
+ * Check whether a track delivers a resolution, in either orientation
+ * (phones report portrait streams with width and height swapped)
+ */
+function deliversResolution(
+  settings: MediaTrackSettings,
+  { width, height }: Resolution
+): boolean {
+  return (
+    (settings.width === width && settings.height === height) ||
+    (settings.width === height && settings.height === width)
+  );
+}
+
+/**
+ * Find the resolutions a camera really delivers
+ *
+ * Opens the camera once and requests each standard resolution with exact
+ * constraints, without browser rescaling where `resizeMode` is supported,
+ * keeping only those `getSettings()` confirms.
+ * @param deviceId - Camera device ID
+ * @param candidates - Resolutions to try
+ * @returns Promise<Resolution[]> - Verified resolutions, largest first
+ */
+export async function probeResolutions(
+  deviceId: string,
+  candidates: Resolution[] = STANDARD_RESOLUTIONS
+): Promise<Resolution[]> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: { deviceId: { exact: deviceId } },
+  });
+  const track = stream.getVideoTracks()[0];
+
+  try {
+    if (!track) {
+      throw new Error("No video track found");
+    }
+
+    const capabilities = track.getCapabilities();
+    const nativeOnly = capabilities.resizeMode?.includes("none") ?? false;
+    const maxSide = Math.max(
+      capabilities.width?.max ?? Number.POSITIVE_INFINITY,
+      capabilities.height?.max ?? Number.POSITIVE_INFINITY
+    );
+
+    const verified: Resolution[] = [];
+    for (const resolution of candidates) {
+      // Skip sizes the sensor cannot reach in either orientation
+      if (Math.max(resolution.width, resolution.height) > maxSide) {
+        continue;
+      }
+
+      try {
+        await track.applyConstraints({
+          width: { exact: resolution.width },
+          height: { exact: resolution.height },
+          ...(nativeOnly && { resizeMode: "none" }),
+        });
+        if (deliversResolution(track.getSettings(), resolution)) {
+          verified.push(resolution);
+        }
+      } catch {
+        // OverconstrainedError: not a mode this camera offers
+      }
+    }
+
+    return verified.sort((a, b) => b.width * b.height - a.width * a.height);
+  } finally {
+    stopCamera(stream);
+  }
+}
+
+/**
+ * Get the verified resolutions of a camera, probing it on first use
+ *
+ * Results are cached per device in localStorage, so the camera is only
+ * probed once. Must not be called while the camera is streaming.
+ * @param deviceId - Camera device ID
+ * @param options - Set refresh to ignore the cache and probe again
+ * @returns Promise<Resolution[]> - Verified resolutions, largest first
+ */
+export async function getVerifiedResolutions(
+  deviceId: string,
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<Resolution[]> {
+  const cache = readResolutionCache();
+  const cached = cache.devices[deviceId];
+  if (cached && !refresh) {
+    return cached;
+  }
+
+  const resolutions = await probeResolutions(deviceId);
+
+  // Do not cache a failed probe, so the next start tries again
+  if (resolutions.length > 0) {
+    cache.devices[deviceId] = resolutions;
+    try {
+      localStorage.setItem(RESOLUTION_CACHE_KEY, JSON.stringify(cache));
+    } catch (error) {
+      console.warn("Could not cache resolutions:", error);
+    }
+  }
+
+  return resolutions;
+}
+
 /**
  * Start camera with specified settings
  * @param settings - Camera settings to apply
@@ -391,16 +622,284 @@ export async function startCamera(
   }
 }
 
+export type CaptureSource = "image-capture" | "canvas";
+
+export type ImageFormat =
+  | "image/png"
+  | "image/jpeg"
+  | "image/webp"
+  | "image/avif";
+
+export interface ImageFormatInfo {
+  mimeType: ImageFormat;
+  label: string;
+  extension: string;
+  /** Whether the encoder honours a quality setting */
+  lossy: boolean;
+}
+
+export const IMAGE_FORMATS: ImageFormatInfo[] = [
+  { mimeType: "image/jpeg", label: "JPEG", extension: "jpg", lossy: true },
+  { mimeType: "image/png", label: "PNG", extension: "png", lossy: false },
+  { mimeType: "image/webp", label: "WebP", extension: "webp", lossy: true },
+  { mimeType: "image/avif", label: "AVIF", extension: "avif", lossy: true },
+];
+
+export interface CaptureOptions {
+  /** Still settings for ImageCapture (imageWidth, imageHeight, fillLightMode) */
+  photoSettings?: PhotoSettings;
+  /** Output image format, defaults to JPEG */
+  format?: ImageFormat;
+  /** Encoder quality between 0 and 1 for lossy formats */
+  quality?: number;
+  /** Lens label written to the EXIF Model/LensModel tags */
+  lensLabel?: string;
+  /** Embed the actual track settings as EXIF in JPEG output, defaults to true */
+  embedMetadata?: boolean;
+}
+
+export interface CaptureResult {
+  blob: Blob;
+  mimeType: string;
+  /** Which capture path produced the image */
+  source: CaptureSource;
+  width: number;
+  height: number;
+  /** Capture time in milliseconds since epoch */
+  capturedAt: number;
+  /** Settings the track actually reported at capture time */
+  trackSettings: MediaTrackSettings;
+}
+
+type CapturedImage = Omit<CaptureResult, "trackSettings">;
+
 /**
- * Capture a photo from the video stream
+ * Check if the ImageCapture API is available in this browser
+ * @returns boolean - true if ImageCapture can be constructed
+ */
+export function isImageCaptureSupported(): boolean {
+  return typeof window !== "undefined" && "ImageCapture" in window;
+}
+
+/**
+ * Get still photo capabilities (sensor resolution range, fill light modes) of a stream
+ * @param stream - The MediaStream to inspect
+ * @returns Promise<PhotoCapabilities | null> - null if ImageCapture is not supported
+ */
+export async function getPhotoCapabilities(
+  stream: MediaStream
+): Promise<PhotoCapabilities | null> {
+  const track = stream.getVideoTracks()[0];
+  if (!track || !isImageCaptureSupported()) {
+    return null;
+  }
+
+  try {
+    return await new ImageCapture(track).getPhotoCapabilities();
+  } catch (error) {
+    console.warn("Photo capabilities not available:", error);
+    return null;
+  }
+}
+
+function canvasToBlob(
+  canvas: HTMLCanvasElement,
+  format: ImageFormat,
+  quality?: number
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error(`Could not encode image as ${format}`));
+        }
+      },
+      format,
+      quality
+    );
+  });
+}
+
+/**
+ * Detect which image formats this browser's canvas can encode
+ *
+ * Browsers silently fall back to PNG for unsupported types, so the
+ * resulting blob type is checked rather than trusting toBlob().
+ * @returns Promise<ImageFormatInfo[]> - Encodable formats
+ */
+export async function getSupportedImageFormats(): Promise<ImageFormatInfo[]> {
+  const canvas = document.createElement("canvas");
+  canvas.width = 1;
+  canvas.height = 1;
+
+  const supported: ImageFormatInfo[] = [];
+  for (const format of IMAGE_FORMATS) {
+    try {
+      const blob = await canvasToBlob(canvas, format.mimeType);
+      if (blob.type === format.mimeType) {
+        supported.push(format);
+      }
+    } catch {
+      // Format not encodable
+    }
+  }
+
+  return supported;
+}
+
+/**
+ * Get the file extension for an image MIME type
+ * @param mimeType - Image MIME type
+ * @returns string - File extension without the dot
+ */
+export function getImageExtension(mimeType: string): string {
+  return (
+    IMAGE_FORMATS.find((format) => format.mimeType === mimeType)?.extension ??
+    mimeType.split("/")[1] ??
+    "bin"
+  );
+}
+
+/**
+ * Build a timestamped file name for a capture, e.g. browsercam-20250101-120000.jpg
+ * @param extension - File extension without the dot
+ * @param date - Capture time
+ * @param prefix - File name prefix
+ * @returns string - File name
+ */
+export function getCaptureFileName(
+  extension: string,
+  date: Date | number = new Date(),
+  prefix = "browsercam"
+): string {
+  const d = new Date(date);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const stamp = `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(
+    d.getDate()
+  )}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+  return `${prefix}-${stamp}.${extension}`;
+}
+
+/**
+ * Keep only the photo settings the device reports as supported
+ */
+function resolvePhotoSettings(
+  photoSettings: PhotoSettings,
+  photoCapabilities: PhotoCapabilities
+): PhotoSettings {
+  const resolved: PhotoSettings = {};
+
+  if (photoSettings.imageWidth !== undefined && photoCapabilities.imageWidth) {
+    const { min = 0, max = photoSettings.imageWidth } =
+      photoCapabilities.imageWidth;
+    resolved.imageWidth = Math.min(
+      Math.max(photoSettings.imageWidth, min),
+      max
+    );
+  }
+
+  if (
+    photoSettings.imageHeight !== undefined &&
+    photoCapabilities.imageHeight
+  ) {
+    const { min = 0, max = photoSettings.imageHeight } =
+      photoCapabilities.imageHeight;
+    resolved.imageHeight = Math.min(
+      Math.max(photoSettings.imageHeight, min),
+      max
+    );
+  }
+
+  if (
+    photoSettings.fillLightMode &&
+    photoCapabilities.fillLightMode?.includes(photoSettings.fillLightMode)
+  ) {
+    resolved.fillLightMode = photoSettings.fillLightMode;
+  }
+
+  if (
+    photoSettings.redEyeReduction !== undefined &&
+    photoCapabilities.redEyeReduction === "controllable"
+  ) {
+    resolved.redEyeReduction = photoSettings.redEyeReduction;
+  }
+
+  return resolved;
+}
+
+/**
+ * Take a full-resolution still using ImageCapture.takePhoto()
+ *
+ * The sensor still is kept as-is when it already has the requested format
+ * (usually JPEG) and no quality is given, and is re-encoded otherwise.
+ * @param track - The live video track
+ * @param options - Photo settings and output format
+ * @returns Promise<CapturedImage> - The captured still
+ */
+async function takeSensorPhoto(
+  track: MediaStreamTrack,
+  options: Required<Pick<CaptureOptions, "format">> & CaptureOptions
+): Promise<CapturedImage> {
+  const capturedAt = Date.now();
+  const imageCapture = new ImageCapture(track);
+  const photoCapabilities = await imageCapture.getPhotoCapabilities();
+  const photo = await imageCapture.takePhoto(
+    resolvePhotoSettings(options.photoSettings ?? {}, photoCapabilities)
+  );
+
+  const bitmap = await createImageBitmap(photo);
+  const { width, height } = bitmap;
+
+  try {
+    if (photo.type === options.format && options.quality === undefined) {
+      return {
+        blob: photo,
+        mimeType: photo.type,
+        source: "image-capture",
+        width,
+        height,
+        capturedAt,
+      };
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Could not get canvas context");
+    }
+    context.drawImage(bitmap, 0, 0);
+
+    const blob = await canvasToBlob(canvas, options.format, options.quality);
+    return {
+      blob,
+      mimeType: blob.type,
+      source: "image-capture",
+      width,
+      height,
+      capturedAt,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Grab the current frame of the video element onto a canvas
  * @param videoElement - The video element displaying the camera stream
  * @param settings - Optional camera settings for the capture
- * @returns string - Data URL of the captured image
+ * @param options - Output format and quality
+ * @returns Promise<CapturedImage> - The captured video frame
  */
-export function capturePhoto(
+async function grabVideoFrame(
   videoElement: HTMLVideoElement,
-  settings?: CameraSettings
-): string {
+  settings: CameraSettings | undefined,
+  options: Required<Pick<CaptureOptions, "format">> & CaptureOptions
+): Promise<CapturedImage> {
+  const capturedAt = Date.now();
   const canvas = document.createElement("canvas");
   canvas.width = settings?.width ?? videoElement.videoWidth;
   canvas.height = settings?.height ?? videoElement.videoHeight;
@@ -412,7 +911,391 @@ export function capturePhoto(
 
   context.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
 
-  return canvas.toDataURL("image/png");
+  const blob = await canvasToBlob(canvas, options.format, options.quality);
+  return {
+    blob,
+    mimeType: blob.type,
+    source: "canvas",
+    width: canvas.width,
+    height: canvas.height,
+    capturedAt,
+  };
+}
+
+/**
+ * Capture a photo from the video stream
+ *
+ * Uses ImageCapture.takePhoto() for a full-resolution sensor still when the
+ * browser supports it and falls back to grabbing the current video frame.
+ * @param videoElement - The video element displaying the camera stream
+ * @param settings - Optional camera settings for the capture
+ * @param options - Optional photo settings, output format and quality
+ * @returns Promise<CaptureResult> - The captured image and the path that produced it
+ */
+export async function capturePhoto(
+  videoElement: HTMLVideoElement,
+  settings?: CameraSettings,
+  options: CaptureOptions = {}
+): Promise<CaptureResult> {
+  const resolvedOptions = {
+    ...options,
+    format: options.format ?? "image/jpeg",
+  };
+  const stream = videoElement.srcObject;
+  const track =
+    stream instanceof MediaStream ? stream.getVideoTracks()[0] : undefined;
+
+  // Read what the camera is really doing, not what was requested
+  const trackSettings = track?.getSettings() ?? {};
+
+  let result: CapturedImage | null = null;
+  if (track && track.readyState === "live" && isImageCaptureSupported()) {
+    try {
+      result = await takeSensorPhoto(track, resolvedOptions);
+    } catch (error) {
+      console.warn("takePhoto failed, falling back to video frame:", error);
+    }
+  }
+
+  result ??= await grabVideoFrame(videoElement, settings, resolvedOptions);
+
+  if (result.mimeType === "image/jpeg" && options.embedMetadata !== false) {
+    try {
+      result.blob = await embedExifMetadata(result.blob, {
+        trackSettings,
+        lensLabel: options.lensLabel,
+        capturedAt: result.capturedAt,
+      });
+    } catch (error) {
+      console.warn("Could not embed EXIF metadata:", error);
+    }
+  }
+
+  return { ...result, trackSettings };
+}
+
+export interface CaptureMetadata {
+  trackSettings: MediaTrackSettings;
+  lensLabel?: string;
+  capturedAt: number;
+}
+
+// EXIF/TIFF field types
+const EXIF_ASCII = 2;
+const EXIF_SHORT = 3;
+const EXIF_LONG = 4;
+const EXIF_RATIONAL = 5;
+const EXIF_UNDEFINED = 7;
+const EXIF_SRATIONAL = 10;
+
+interface ExifEntry {
+  tag: number;
+  type: number;
+  count: number;
+  /** Raw big-endian value bytes */
+  data: Uint8Array;
+}
+
+function exifAscii(tag: number, value: string): ExifEntry {
+  const data = new TextEncoder().encode(`${value}\0`);
+  return { tag, type: EXIF_ASCII, count: data.length, data };
+}
+
+function exifShort(tag: number, value: number): ExifEntry {
+  const data = new Uint8Array(2);
+  new DataView(data.buffer).setUint16(0, value);
+  return { tag, type: EXIF_SHORT, count: 1, data };
+}
+
+function exifLong(tag: number, value: number): ExifEntry {
+  const data = new Uint8Array(4);
+  new DataView(data.buffer).setUint32(0, value);
+  return { tag, type: EXIF_LONG, count: 1, data };
+}
+
+function exifRational(
+  tag: number,
+  [numerator, denominator]: [number, number],
+  signed = false
+): ExifEntry {
+  const data = new Uint8Array(8);
+  const view = new DataView(data.buffer);
+  if (signed) {
+    view.setInt32(0, numerator);
+    view.setInt32(4, denominator);
+  } else {
+    view.setUint32(0, numerator);
+    view.setUint32(4, denominator);
+  }
+  return {
+    tag,
+    type: signed ? EXIF_SRATIONAL : EXIF_RATIONAL,
+    count: 1,
+    data,
+  };
+}
+
+function toRational(value: number, denominator = 1000): [number, number] {
+  const numerator = Math.round(value * denominator);
+  const divisor =
+    numerator === 0
+      ? denominator
+      : greatestCommonDivisor(Math.abs(numerator), denominator);
+  return [numerator / divisor, denominator / divisor];
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+function formatExifDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(
+    date.getDate()
+  )} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(
+    date.getSeconds()
+  )}`;
+}
+
+function formatExifOffset(date: Date): string {
+  const offset = -date.getTimezoneOffset();
+  const sign = offset >= 0 ? "+" : "-";
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, "0");
+  const minutes = String(Math.abs(offset) % 60).padStart(2, "0");
+  return `${sign}${hours}:${minutes}`;
+}
+
+/**
+ * Serialize an IFD at the given TIFF offset
+ * @returns Uint8Array - IFD entries followed by their out-of-line values
+ */
+function writeIfd(entries: ExifEntry[], offset: number): Uint8Array {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  const headerSize = 2 + sorted.length * 12 + 4;
+  const dataSize = sorted.reduce(
+    (size, entry) =>
+      entry.data.length > 4
+        ? size + entry.data.length + (entry.data.length % 2)
+        : size,
+    0
+  );
+
+  const bytes = new Uint8Array(headerSize + dataSize);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, sorted.length);
+
+  let dataOffset = headerSize;
+  sorted.forEach((entry, index) => {
+    const position = 2 + index * 12;
+    view.setUint16(position, entry.tag);
+    view.setUint16(position + 2, entry.type);
+    view.setUint32(position + 4, entry.count);
+
+    if (entry.data.length <= 4) {
+      bytes.set(entry.data, position + 8);
+    } else {
+      view.setUint32(position + 8, offset + dataOffset);
+      bytes.set(entry.data, dataOffset);
+      dataOffset += entry.data.length + (entry.data.length % 2);
+    }
+  });
+
+  // Next IFD offset stays 0: no thumbnail IFD
+  return bytes;
+}
+
+/**
+ * Read the Orientation tag from an existing EXIF APP1 payload
+ */
+function readExifOrientation(payload: Uint8Array): number | undefined {
+  const view = new DataView(
+    payload.buffer,
+    payload.byteOffset,
+    payload.byteLength
+  );
+  // Skip the "Exif\0\0" identifier
+  const tiff = 6;
+  if (payload.length < tiff + 8) return undefined;
+
+  const littleEndian = view.getUint16(tiff) === 0x4949;
+  const ifdOffset = tiff + view.getUint32(tiff + 4, littleEndian);
+  if (ifdOffset + 2 > payload.length) return undefined;
+
+  const count = view.getUint16(ifdOffset, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > payload.length) return undefined;
+    if (view.getUint16(entry, littleEndian) === 0x0112) {
+      return view.getUint16(entry + 8, littleEndian);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Build an EXIF APP1 segment describing the capture
+ */
+function buildExifSegment(
+  metadata: CaptureMetadata,
+  orientation?: number
+): Uint8Array<ArrayBuffer> {
+  const { trackSettings, lensLabel } = metadata;
+  const capturedAt = new Date(metadata.capturedAt);
+
+  const description = [
+    trackSettings.colorTemperature !== undefined &&
+      `WB ${trackSettings.colorTemperature}K`,
+    trackSettings.exposureMode && `AE ${trackSettings.exposureMode}`,
+    trackSettings.focusMode && `AF ${trackSettings.focusMode}`,
+    trackSettings.width &&
+      trackSettings.height &&
+      `Stream ${trackSettings.width}x${trackSettings.height}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  const ifd0: ExifEntry[] = [
+    exifAscii(0x0131, "BrowserCam"),
+    exifAscii(0x0132, formatExifDate(capturedAt)),
+  ];
+  if (description) ifd0.push(exifAscii(0x010e, description));
+  if (lensLabel) ifd0.push(exifAscii(0x0110, lensLabel));
+  if (orientation) ifd0.push(exifShort(0x0112, orientation));
+
+  const exif: ExifEntry[] = [
+    {
+      tag: 0x9000,
+      type: EXIF_UNDEFINED,
+      count: 4,
+      data: new TextEncoder().encode("0232"),
+    },
+    exifAscii(0x9003, formatExifDate(capturedAt)),
+    exifAscii(0x9011, formatExifOffset(capturedAt)),
+  ];
+
+  if (
+    trackSettings.exposureTime !== undefined &&
+    trackSettings.exposureTime > 0
+  ) {
+    // exposureTime is reported in milliseconds
+    const seconds = trackSettings.exposureTime / 1000;
+    exif.push(
+      exifRational(
+        0x829a,
+        seconds < 1 ? [1, Math.round(1 / seconds)] : toRational(seconds)
+      )
+    );
+  }
+  if (trackSettings.iso !== undefined) {
+    exif.push(
+      exifShort(0x8827, Math.min(Math.round(trackSettings.iso), 0xffff))
+    );
+  }
+  if (trackSettings.exposureCompensation !== undefined) {
+    exif.push(
+      exifRational(
+        0x9204,
+        toRational(trackSettings.exposureCompensation, 100),
+        true
+      )
+    );
+  }
+  if (trackSettings.focusDistance !== undefined) {
+    exif.push(exifRational(0x9206, toRational(trackSettings.focusDistance)));
+  }
+  if (trackSettings.exposureMode !== undefined) {
+    exif.push(
+      exifShort(0xa402, trackSettings.exposureMode === "manual" ? 1 : 0)
+    );
+  }
+  if (trackSettings.whiteBalanceMode !== undefined) {
+    exif.push(
+      exifShort(0xa403, trackSettings.whiteBalanceMode === "manual" ? 1 : 0)
+    );
+  }
+  if (trackSettings.zoom !== undefined) {
+    exif.push(exifRational(0xa404, toRational(trackSettings.zoom, 100)));
+  }
+  if (lensLabel) exif.push(exifAscii(0xa434, lensLabel));
+
+  // TIFF header (8 bytes) + IFD0, then the Exif IFD right after it
+  const ifd0Offset = 8;
+  const ifd0Size = writeIfd([...ifd0, exifLong(0x8769, 0)], ifd0Offset).length;
+  const exifOffset = ifd0Offset + ifd0Size;
+  const ifd0Bytes = writeIfd(
+    [...ifd0, exifLong(0x8769, exifOffset)],
+    ifd0Offset
+  );
+  const exifBytes = writeIfd(exif, exifOffset);
+
+  const tiffSize = 8 + ifd0Bytes.length + exifBytes.length;
+  const segment = new Uint8Array(4 + 6 + tiffSize);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, segment.length - 2);
+  segment.set(new TextEncoder().encode("Exif\0\0"), 4);
+  view.setUint16(10, 0x4d4d); // "MM", big-endian
+  view.setUint16(12, 0x002a);
+  view.setUint32(14, ifd0Offset);
+  segment.set(ifd0Bytes, 18);
+  segment.set(exifBytes, 18 + ifd0Bytes.length);
+
+  return segment;
+}
+
+/**
+ * Embed capture settings into a JPEG as EXIF metadata
+ *
+ * Any existing EXIF segment is replaced; its Orientation tag is kept.
+ * @param blob - JPEG image
+ * @param metadata - Actual track settings, lens label and capture time
+ * @returns Promise<Blob> - JPEG with the new EXIF segment
+ */
+export async function embedExifMetadata(
+  blob: Blob,
+  metadata: CaptureMetadata
+): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    throw new Error("Not a JPEG image");
+  }
+
+  const view = new DataView(bytes.buffer);
+  const kept: Uint8Array<ArrayBuffer>[] = [];
+  let insertAt = 0;
+  let orientation: number | undefined;
+  let position = 2;
+
+  // Walk the header segments up to the start of scan
+  while (position + 4 <= bytes.length) {
+    const marker = view.getUint16(position);
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+
+    const length = view.getUint16(position + 2);
+    const segment = bytes.subarray(position, position + 2 + length);
+    const payload = segment.subarray(4);
+    const isExif =
+      marker === 0xffe1 &&
+      new TextDecoder().decode(payload.subarray(0, 4)) === "Exif";
+
+    if (isExif) {
+      orientation = readExifOrientation(payload);
+    } else {
+      kept.push(segment);
+      // Keep JFIF (APP0) ahead of the EXIF segment
+      if (marker === 0xffe0) insertAt = kept.length;
+    }
+
+    position += 2 + length;
+  }
+
+  const exifSegment = buildExifSegment(metadata, orientation);
+  kept.splice(insertAt, 0, exifSegment);
+
+  return new Blob([bytes.subarray(0, 2), ...kept, bytes.subarray(position)], {
+    type: "image/jpeg",
+  });
 }
 
 export interface CameraDevice {
@@ -438,12 +1321,18 @@ export async function getCameraDevices(): Promise<MediaDeviceInfo[]> {
 
 /**
  * Get list of all available cameras/lenses with detailed information
+ * @param options - Set requestPermission to false to skip the permission
+ * prompt, e.g. when refreshing the list while a camera is already open
  * @returns Promise<CameraDevice[]> - Array of camera devices with details
  */
-export async function listCameras(): Promise<CameraDevice[]> {
+export async function listCameras({
+  requestPermission = true,
+}: { requestPermission?: boolean } = {}): Promise<CameraDevice[]> {
   try {
     // Request permissions first to get device labels
-    await requestCameraPermissions();
+    if (requestPermission) {
+      await requestCameraPermissions();
+    }
 
     const devices = await navigator.mediaDevices.enumerateDevices();
     const videoDevices = devices.filter(
@@ -462,16 +1351,261 @@ export async function listCameras(): Promise<CameraDevice[]> {
   }
 }
 
+export interface SettingRange {
+  min: number;
+  max: number;
+  step?: number;
+}
+
+export type SettingAdjustmentReason = "clamped" | "snapped" | "unsupported";
+
+export interface SettingAdjustment {
+  key: keyof CameraSettings;
+  requested: number | string | boolean;
+  /** Value used instead, undefined when the setting was dropped */
+  value?: number | string | boolean;
+  reason: SettingAdjustmentReason;
+  /** Range the value was fitted to, for clamped and snapped values */
+  range?: SettingRange;
+}
+
+export interface NormalizedSettings {
+  settings: CameraSettings;
+  /** Every value that had to change, in field order */
+  adjustments: SettingAdjustment[];
+}
+
+const RANGE_SETTINGS = [
+  "aspectRatio",
+  "colorTemperature",
+  "exposureCompensation",
+  "exposureTime",
+  "focusDistance",
+  "frameRate",
+  "height",
+  "iso",
+  "width",
+  "zoom",
+] as const;
+
+const MODE_SETTINGS = [
+  "exposureMode",
+  "focusMode",
+  "whiteBalanceMode",
+] as const;
+
+/**
+ * Clamp a value to a capability range and snap it to the range's step
+ * @param value - Requested value
+ * @param range - Capability range, steps are counted from its minimum
+ * @returns number - Value the camera accepts
+ */
+export function normalizeValue(value: number, range: SettingRange): number {
+  const clamped = Math.min(range.max, Math.max(range.min, value));
+  if (!range.step) return clamped;
+
+  const snapped =
+    range.min + Math.round((clamped - range.min) / range.step) * range.step;
+  // Avoid floating point noise such as 1.2000000000000002
+  return Number(Math.min(range.max, snapped).toFixed(6));
+}
+
+/**
+ * Turn a list of nominal values (e.g. standard ISO stops) into the values a
+ * camera accepts
+ * @param candidates - Nominal values
+ * @param range - Capability range
+ * @returns number[] - Normalized values within the range, without duplicates
+ */
+export function getSettingOptions(
+  candidates: number[],
+  range: SettingRange
+): number[] {
+  const options = candidates
+    .filter((value) => value >= range.min && value <= range.max)
+    .map((value) => normalizeValue(value, range));
+  return [...new Set(options)];
+}
+
+/**
+ * Fit settings to the capabilities of a camera
+ *
+ * Numeric values are clamped to their range and snapped to its step, modes
+ * and settings the camera does not support are dropped.
+ * @param settings - Requested settings
+ * @param capabilities - Capabilities of the camera
+ * @returns NormalizedSettings - Settings to apply and what had to change
+ */
+export function normalizeSettings(
+  settings: CameraSettings,
+  capabilities: CameraCapabilities
+): NormalizedSettings {
+  const normalized: CameraSettings = { ...settings };
+  const adjustments: SettingAdjustment[] = [];
+
+  for (const key of RANGE_SETTINGS) {
+    const value = normalized[key];
+    if (value === undefined) continue;
+
+    const range = capabilities[key];
+    if (!range) {
+      normalized[key] = undefined;
+      adjustments.push({ key, requested: value, reason: "unsupported" });
+      continue;
+    }
+
+    const fitted = normalizeValue(value, range);
+    if (fitted !== value) {
+      normalized[key] = fitted;
+      adjustments.push({
+        key,
+        requested: value,
+        value: fitted,
+        reason: value < range.min || value > range.max ? "clamped" : "snapped",
+        range,
+      });
+    }
+  }
+
+  for (const key of MODE_SETTINGS) {
+    const value = normalized[key];
+    if (value === undefined) continue;
+
+    if (!capabilities[key]?.includes(value)) {
+      normalized[key] = undefined;
+      adjustments.push({ key, requested: value, reason: "unsupported" });
+    }
+  }
+
+  if (normalized.torch && !capabilities.torch) {
+    normalized.torch = undefined;
+    adjustments.push({ key: "torch", requested: true, reason: "unsupported" });
+  }
+
+  if (normalized.pointsOfInterest && !capabilities.pointsOfInterest) {
+    normalized.pointsOfInterest = undefined;
+    adjustments.push({
+      key: "pointsOfInterest",
+      requested: true,
+      reason: "unsupported",
+    });
+  }
+
+  return { settings: normalized, adjustments };
+}
+
+export type SettingStatus = "applied" | "adjusted" | "ignored";
+
+export interface SettingDifference {
+  requested: number | string | boolean;
+  /** Value the track reports, undefined if it does not report the field */
+  actual?: number | string | boolean;
+  status: SettingStatus;
+}
+
+type VerifiableSetting = Exclude<keyof CameraSettings, "pointsOfInterest">;
+
+/**
+ * Requested vs. actual value for each setting that was requested
+ */
+export type SettingsDiff = Partial<
+  Record<VerifiableSetting, SettingDifference>
+>;
+
+// Values only take effect while the matching mode is manual
+const MANUAL_MODE_FIELDS = {
+  colorTemperature: "whiteBalanceMode",
+  exposureTime: "exposureMode",
+  focusDistance: "focusMode",
+  iso: "exposureMode",
+} as const;
+
+function isClose(requested: number, actual: number, field: string): boolean {
+  // Aspect ratios are derived from integer sizes, so allow for rounding
+  const tolerance =
+    field === "aspectRatio" ? 0.01 : Math.max(1e-3, Math.abs(requested) * 1e-3);
+  return Math.abs(requested - actual) <= tolerance;
+}
+
+/**
+ * Compare requested settings with what a track reports
+ * @param requested - Settings that were applied
+ * @param actual - Result of track.getSettings()
+ * @returns SettingsDiff - Status of every requested field
+ */
+export function getSettingsDiff(
+  requested: CameraSettings,
+  actual: MediaTrackSettings
+): SettingsDiff {
+  const diff: SettingsDiff = {};
+
+  // Portrait streams report width and height swapped
+  const swapped =
+    requested.width !== undefined &&
+    requested.height !== undefined &&
+    requested.width !== requested.height &&
+    actual.width === requested.height &&
+    actual.height === requested.width;
+  const reported: MediaTrackSettings = {
+    ...actual,
+    ...(swapped && { width: actual.height, height: actual.width }),
+    aspectRatio:
+      actual.width && actual.height
+        ? Math.max(actual.width, actual.height) /
+          Math.min(actual.width, actual.height)
+        : actual.aspectRatio,
+  };
+
+  const keys = Object.keys(requested).filter(
+    (key): key is VerifiableSetting => key !== "pointsOfInterest"
+  );
+  for (const key of keys) {
+    const value = requested[key];
+    if (value === undefined) continue;
+
+    const actualValue = reported[key];
+    let status: SettingStatus;
+    if (actualValue === undefined) {
+      status = "ignored";
+    } else if (typeof value === "number" && typeof actualValue === "number") {
+      status = isClose(
+        key === "aspectRatio" ? Math.max(value, 1 / value) : value,
+        actualValue,
+        key
+      )
+        ? "applied"
+        : "adjusted";
+    } else {
+      status = value === actualValue ? "applied" : "ignored";
+    }
+
+    // A manual value is not in effect while the camera stays in auto
+    if (key in MANUAL_MODE_FIELDS) {
+      const mode = MANUAL_MODE_FIELDS[key as keyof typeof MANUAL_MODE_FIELDS];
+      if (actual[mode] !== undefined && actual[mode] !== "manual") {
+        status = "ignored";
+      }
+    }
+
+    diff[key] = { requested: value, actual: actualValue, status };
+  }
+
+  return diff;
+}
+
 /**
  * Apply camera settings to an existing stream without restarting
+ *
+ * Reads the track settings back afterwards, as devices may silently ignore
+ * or round values they do not support.
  * @param stream - The existing MediaStream
  * @param settings - Camera settings to apply
- * @returns Promise<void>
+ * @returns Promise<SettingsDiff> - Requested vs. actual value per field
  */
 export async function applySettingsToStream(
   stream: MediaStream,
   settings: CameraSettings
-): Promise<void> {
+): Promise<SettingsDiff> {
   try {
     const track = stream.getVideoTracks()[0];
     if (!track) {
@@ -521,6 +1655,9 @@ export async function applySettingsToStream(
     if (settings.iso !== undefined) {
       imageCaptureSettings.iso = settings.iso;
     }
+    if (settings.pointsOfInterest) {
+      imageCaptureSettings.pointsOfInterest = settings.pointsOfInterest;
+    }
     if (settings.torch !== undefined) {
       imageCaptureSettings.torch = settings.torch;
     }
@@ -539,6 +1676,15 @@ export async function applySettingsToStream(
       await track.applyConstraints(imageCaptureSettings);
       console.log("Applied ImageCapture constraints:", imageCaptureSettings);
     }
+
+    const diff = getSettingsDiff(settings, track.getSettings());
+    const mismatches = Object.entries(diff).filter(
+      ([, difference]) => difference.status !== "applied"
+    );
+    if (mismatches.length > 0) {
+      console.warn("Camera did not apply all settings:", mismatches);
+    }
+    return diff;
   } catch (error) {
     console.error("Error applying settings to stream:", error);
     throw error;
@@ -0,0 +1,418 @@
+/**
+ * Framework-agnostic owner of the camera stream lifecycle
+ */
+
+import {
+	type CameraCapabilities,
+	type CameraSettings,
+	type PointOfInterest,
+	type Resolution,
+	type SettingsDiff,
+	applySettingsToStream,
+	getCameraCapabilities,
+	getSettingsDiff,
+	getVerifiedResolutions,
+	normalizeSettings,
+	startCamera,
+	stopCamera,
+} from "@bc/lib/camera";
+
+export type CameraStatus =
+	| "idle"
+	| "requesting"
+	| "starting"
+	| "live"
+	| "applying"
+	| "recovering"
+	| "error";
+
+export interface CameraError {
+	/** Short message for a heading */
+	title: string;
+	/** Explanation or hint for the user */
+	details: string;
+	cause: unknown;
+}
+
+export interface CameraControllerState {
+	status: CameraStatus;
+	deviceId: string | null;
+	stream: MediaStream | null;
+	capabilities: CameraCapabilities | null;
+	/** Resolutions the camera verifiably delivers, largest first */
+	resolutions: Resolution[];
+	/** Settings last requested, already fitted to the capabilities */
+	settings: CameraSettings;
+	/** What the camera actually did with the requested settings */
+	diff: SettingsDiff;
+	error: CameraError | null;
+}
+
+export interface CameraControllerEventMap {
+	statechange: CameraControllerState;
+	error: CameraError;
+}
+
+type Listener<T> = (payload: T) => void;
+
+/** Initial settings, or a function deriving them from the capabilities */
+export type InitialSettings =
+	| CameraSettings
+	| ((capabilities: CameraCapabilities) => CameraSettings);
+
+const INITIAL_STATE: CameraControllerState = {
+	status: "idle",
+	deviceId: null,
+	stream: null,
+	capabilities: null,
+	resolutions: [],
+	settings: {},
+	diff: {},
+	error: null,
+};
+
+/**
+ * Map a getUserMedia or applyConstraints failure to a message for the user
+ * @param error - Error thrown by the camera APIs
+ * @returns CameraError - Title and details to display
+ */
+export function describeCameraError(error: unknown): CameraError {
+	const name = error instanceof Error ? error.name : "Error";
+	const message = error instanceof Error ? error.message : "Unknown error";
+
+	switch (name) {
+		case "NotReadableError":
+			return {
+				title: "Camera is not accessible",
+				details:
+					"The camera might be in use by another application or not properly connected.",
+				cause: error,
+			};
+		case "NotAllowedError":
+			return {
+				title: "Camera access denied",
+				details: "Please grant camera permissions to use this feature.",
+				cause: error,
+			};
+		case "NotFoundError":
+			return {
+				title: "No camera found",
+				details: "Please connect a camera and try again.",
+				cause: error,
+			};
+		case "OverconstrainedError":
+			return {
+				title: "Camera settings not supported",
+				details:
+					"The requested camera settings are not available on this device.",
+				cause: error,
+			};
+		default:
+			return {
+				title: "Failed to start camera",
+				details: message,
+				cause: error,
+			};
+	}
+}
+
+/**
+ * Starts, reconfigures and recovers one camera stream at a time
+ *
+ * Operations are queued and run one after another, so a restart can never
+ * overlap a start or a constraint change on the same track. Subscribers get
+ * a new state snapshot after every transition.
+ */
+export class CameraController {
+	private state: CameraControllerState = INITIAL_STATE;
+	private queue: Promise<unknown> = Promise.resolve();
+	private disposed = false;
+	private listeners: {
+		[K in keyof CameraControllerEventMap]: Set<
+			Listener<CameraControllerEventMap[K]>
+		>;
+	} = { statechange: new Set(), error: new Set() };
+
+	/**
+	 * Subscribe to an event
+	 * @param type - Event name
+	 * @param listener - Called with the event payload
+	 * @returns Function that removes the listener
+	 */
+	on<K extends keyof CameraControllerEventMap>(
+		type: K,
+		listener: Listener<CameraControllerEventMap[K]>,
+	): () => void {
+		this.listeners[type].add(listener);
+		return () => {
+			this.listeners[type].delete(listener);
+		};
+	}
+
+	getState(): CameraControllerState {
+		return this.state;
+	}
+
+	/**
+	 * Open a camera, replacing the current stream
+	 * @param deviceId - Camera device ID
+	 * @param initialSettings - Settings to start with, fitted to the camera
+	 * @param knownCapabilities - Capabilities read earlier, saves opening the
+	 * camera once more to read them
+	 */
+	start(
+		deviceId: string,
+		initialSettings: InitialSettings = {},
+		knownCapabilities?: CameraCapabilities,
+	): Promise<void> {
+		return this.enqueue(async () => {
+			this.releaseStream();
+			this.setState({
+				...INITIAL_STATE,
+				status: "requesting",
+				deviceId,
+			});
+
+			try {
+				const capabilities =
+					knownCapabilities ?? (await getCameraCapabilities(deviceId));
+				if (this.disposed) return;
+				this.setState({ capabilities });
+
+				// Probe native resolutions while the camera is not streaming yet
+				let resolutions: Resolution[] = [];
+				try {
+					resolutions = await getVerifiedResolutions(deviceId);
+				} catch (error) {
+					console.warn("Could not probe camera resolutions:", error);
+				}
+				if (this.disposed) return;
+
+				const requested =
+					typeof initialSettings === "function"
+						? initialSettings(capabilities)
+						: initialSettings;
+				const { settings } = normalizeSettings(requested, capabilities);
+				this.setState({ status: "starting", resolutions, settings });
+
+				await this.openStream(settings);
+			} catch (error) {
+				this.fail(error);
+			}
+		});
+	}
+
+	/**
+	 * Reopen the current camera, e.g. for a new resolution or after an error
+	 * @param settings - Settings for the new stream, defaults to the current
+	 */
+	restart(settings?: CameraSettings): Promise<void> {
+		const { deviceId, capabilities } = this.state;
+		if (!deviceId) return Promise.resolve();
+		// Without capabilities the last start failed early, so begin anew
+		if (!capabilities) return this.start(deviceId, settings);
+
+		return this.enqueue(async () => {
+			this.releaseStream();
+			const { settings: fitted } = normalizeSettings(
+				settings ?? this.state.settings,
+				capabilities,
+			);
+			this.setState({ status: "starting", settings: fitted, error: null });
+
+			try {
+				await this.openStream(fitted);
+			} catch (error) {
+				this.fail(error);
+			}
+		});
+	}
+
+	/**
+	 * Replace the settings of the live stream without restarting it
+	 *
+	 * The new settings are published immediately so controls feel responsive;
+	 * the diff follows once the camera has applied them.
+	 * @param settings - Complete settings to apply
+	 * @returns Promise<SettingsDiff> - Requested vs. actual values
+	 */
+	apply(settings: CameraSettings): Promise<SettingsDiff> {
+		const fitted = this.fit(settings);
+		this.setState({ settings: fitted });
+		return this.enqueue(() => this.applyToStream(fitted, { partial: false }));
+	}
+
+	/**
+	 * Change some settings of the live stream, sending only those to the track
+	 * @param patch - Settings to change, e.g. just the zoom
+	 * @returns Promise<SettingsDiff> - Requested vs. actual for the patch
+	 */
+	update(patch: CameraSettings): Promise<SettingsDiff> {
+		const fitted = this.fit({ ...this.state.settings, ...patch });
+		this.setState({ settings: fitted });
+		const sent = Object.fromEntries(
+			Object.keys(patch).map((key) => [
+				key,
+				fitted[key as keyof CameraSettings],
+			]),
+		) as CameraSettings;
+		return this.enqueue(() => this.applyToStream(sent, { partial: true }));
+	}
+
+	/**
+	 * Focus and meter once on a point, without keeping it in the settings
+	 *
+	 * The next apply re-sends the stored focus and exposure modes, so the
+	 * camera returns to them after any later change.
+	 * @param point - Point in normalized video coordinates
+	 */
+	focusAt(point: PointOfInterest): Promise<void> {
+		return this.enqueue(async () => {
+			const { stream, capabilities } = this.state;
+			if (!stream || this.disposed || !capabilities?.pointsOfInterest) return;
+
+			const oneOff: CameraSettings = { pointsOfInterest: [point] };
+			if (capabilities.focusMode?.includes("single-shot")) {
+				oneOff.focusMode = "single-shot";
+			}
+			if (capabilities.exposureMode?.includes("single-shot")) {
+				oneOff.exposureMode = "single-shot";
+			}
+			await applySettingsToStream(stream, oneOff);
+		});
+	}
+
+	/**
+	 * Restart the stream if its track has ended, e.g. after the page was
+	 * hidden or the camera was briefly taken by another app
+	 * @returns Promise<boolean> - Whether the stream had to be restarted
+	 */
+	recover(): Promise<boolean> {
+		return this.enqueue(async () => {
+			const { stream, status } = this.state;
+			const track = stream?.getVideoTracks()[0];
+			if (!stream || status !== "live") return false;
+			if (track && track.readyState === "live" && track.enabled) return false;
+
+			console.log("Video track ended, restarting camera...");
+			this.releaseStream();
+			this.setState({ status: "recovering" });
+			try {
+				await this.openStream(this.state.settings);
+				return true;
+			} catch (error) {
+				this.fail(error, {
+					title: "Camera disconnected",
+					details: "The camera was disconnected. Please try again.",
+					cause: error,
+				});
+				return false;
+			}
+		});
+	}
+
+	/**
+	 * Stop the stream and return to idle
+	 */
+	stop(): Promise<void> {
+		return this.enqueue(async () => {
+			this.releaseStream();
+			this.setState({ ...INITIAL_STATE });
+		});
+	}
+
+	/**
+	 * Stop the stream and drop all listeners; the controller cannot be reused
+	 */
+	dispose(): void {
+		this.disposed = true;
+		this.releaseStream();
+		this.listeners.statechange.clear();
+		this.listeners.error.clear();
+	}
+
+	private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+		const run = this.queue.then(operation);
+		// Keep the queue going after a failed operation
+		this.queue = run.catch(() => undefined);
+		return run;
+	}
+
+	private setState(patch: Partial<CameraControllerState>) {
+		if (this.disposed) return;
+		this.state = { ...this.state, ...patch };
+		for (const listener of this.listeners.statechange) listener(this.state);
+	}
+
+	private fit(settings: CameraSettings): CameraSettings {
+		const { capabilities } = this.state;
+		if (!capabilities) return settings;
+
+		const { settings: fitted, adjustments } = normalizeSettings(
+			settings,
+			capabilities,
+		);
+		if (adjustments.length > 0) {
+			console.info("Adjusted settings to camera capabilities:", adjustments);
+		}
+		return fitted;
+	}
+
+	private async openStream(settings: CameraSettings) {
+		const { deviceId } = this.state;
+		const stream = await startCamera(settings, deviceId ?? undefined);
+		if (this.disposed) {
+			stopCamera(stream);
+			return;
+		}
+
+		// A track ending on its own means the camera went away
+		stream.getVideoTracks()[0]?.addEventListener("ended", () => {
+			if (this.state.stream === stream) void this.recover();
+		});
+
+		this.setState({
+			status: "live",
+			stream,
+			error: null,
+			diff: getSettingsDiff(
+				settings,
+				stream.getVideoTracks()[0]?.getSettings() ?? {},
+			),
+		});
+	}
+
+	private async applyToStream(
+		settings: CameraSettings,
+		{ partial }: { partial: boolean },
+	): Promise<SettingsDiff> {
+		const { stream } = this.state;
+		if (!stream || this.disposed) return {};
+
+		this.setState({ status: "applying" });
+		try {
+			const diff = await applySettingsToStream(stream, settings);
+			// A partial update only replaces the diff of the fields it sent
+			this.setState({ diff: partial ? { ...this.state.diff, ...diff } : diff });
+			return diff;
+		} finally {
+			if (this.state.stream === stream) {
+				this.setState({ status: "live" });
+			}
+		}
+	}
+
+	private releaseStream() {
+		const { stream } = this.state;
+		if (!stream) return;
+		stopCamera(stream);
+		this.setState({ stream: null });
+	}
+
+	private fail(error: unknown, cameraError = describeCameraError(error)) {
+		console.error("Camera error:", error);
+		this.releaseStream();
+		this.setState({ status: "error", error: cameraError });
+		for (const listener of this.listeners.error) listener(cameraError);
+	}
+}
@@ -0,0 +1,239 @@
+/**
+ * Camera settings encoded in shareable URLs, e.g.
+ * /camera?lens=back&iso=400&shutter=8&wb=5600&zoom=2&ar=4:3
+ */
+
+import type { CameraDevice, CameraSettings } from "@bc/lib/camera";
+import { z } from "zod";
+
+export interface DeepLink {
+	/** "back", "front", a 1-based lens number or a device ID */
+	lens?: string;
+	aspectRatio?: number;
+	settings: CameraSettings;
+}
+
+export interface DeepLinkParseResult {
+	link: DeepLink;
+	/** One message per parameter that could not be used */
+	errors: string[];
+}
+
+const positiveNumber = z.coerce.number().positive().finite();
+
+const ratioPattern = /^(\d+(?:\.\d+)?)(?::(\d+(?:\.\d+)?))?$/;
+
+const deepLinkSchema = z.object({
+	lens: z.string().optional(),
+	iso: positiveNumber.optional(),
+	// Shutter speed in seconds: "8" or "1/8" for 1/8 s, "2s" for long exposures
+	shutter: z
+		.string()
+		.regex(
+			/^(?:(?:1\/)?\d+(?:\.\d+)?|\d+(?:\.\d+)?s)$/,
+			"Expected a shutter speed like 250, 1/250 or 2s",
+		)
+		.transform((value) =>
+			value.endsWith("s")
+				? Number(value.slice(0, -1))
+				: 1 / Number(value.replace("1/", "")),
+		)
+		.pipe(positiveNumber)
+		.optional(),
+	wb: z.coerce.number().int().min(1000).max(15000).optional(),
+	zoom: positiveNumber.optional(),
+	ar: z
+		.string()
+		.regex(ratioPattern, "Expected an aspect ratio like 4:3 or 1.78")
+		.transform((value) => {
+			const [, w, h] = value.match(ratioPattern) ?? [];
+			const sides = [Number(w), Number(h ?? 1)];
+			// Ratios are landscape throughout, so 9:16 means 16:9
+			return Math.max(...sides) / Math.min(...sides);
+		})
+		.pipe(positiveNumber)
+		.optional(),
+	ev: z.coerce.number().min(-10).max(10).optional(),
+	fps: positiveNumber.optional(),
+	// Manual focus distance in meters
+	focus: z.coerce.number().nonnegative().finite().optional(),
+	res: z
+		.string()
+		.regex(/^\d+x\d+$/, "Expected a resolution like 1920x1080")
+		.transform((value) => value.split("x").map(Number) as [number, number])
+		.optional(),
+	torch: z
+		.enum(["0", "1", "true", "false"])
+		.transform((value) => value === "1" || value === "true")
+		.optional(),
+});
+
+type DeepLinkParams = z.infer<typeof deepLinkSchema>;
+
+function toDeepLink(params: DeepLinkParams): DeepLink {
+	const settings: CameraSettings = {};
+
+	if (params.iso !== undefined) settings.iso = params.iso;
+	if (params.shutter !== undefined)
+		settings.exposureTime = 1000 * params.shutter;
+	if (params.wb !== undefined) settings.colorTemperature = params.wb;
+	if (params.zoom !== undefined) settings.zoom = params.zoom;
+	if (params.ev !== undefined) settings.exposureCompensation = params.ev;
+	if (params.fps !== undefined) settings.frameRate = params.fps;
+	if (params.focus !== undefined) settings.focusDistance = params.focus;
+	if (params.torch !== undefined) settings.torch = params.torch;
+	if (params.ar !== undefined) settings.aspectRatio = params.ar;
+	if (params.res) [settings.width, settings.height] = params.res;
+
+	// Same mode switches as the manual controls
+	if (settings.iso !== undefined || settings.exposureTime !== undefined) {
+		settings.exposureMode = "manual";
+	} else if (settings.exposureCompensation !== undefined) {
+		settings.exposureMode = "continuous";
+	}
+	if (settings.focusDistance !== undefined) {
+		settings.focusMode = "manual";
+	}
+
+	return { lens: params.lens, aspectRatio: params.ar, settings };
+}
+
+/**
+ * Parse and validate camera settings from a query string
+ *
+ * Invalid parameters are reported and skipped; the valid ones still apply.
+ * Unknown parameters are ignored.
+ * @param search - Query string, e.g. window.location.search
+ * @returns DeepLinkParseResult - Parsed link and validation errors
+ */
+export function parseDeepLink(search: string): DeepLinkParseResult {
+	const query = new URLSearchParams(search);
+	const raw: Record<string, string> = {};
+	for (const key of Object.keys(deepLinkSchema.shape)) {
+		const value = query.get(key);
+		if (value) raw[key] = value;
+	}
+
+	const result = deepLinkSchema.safeParse(raw);
+	if (result.success) {
+		return { link: toDeepLink(result.data), errors: [] };
+	}
+
+	const errors = result.error.issues.map((issue) => {
+		const key = String(issue.path[0]);
+		return `Invalid ${key}=${raw[key]}: ${issue.message}`;
+	});
+	for (const issue of result.error.issues) {
+		delete raw[String(issue.path[0])];
+	}
+
+	const retry = deepLinkSchema.safeParse(raw);
+	return {
+		link: retry.success ? toDeepLink(retry.data) : { settings: {} },
+		errors,
+	};
+}
+
+/**
+ * Find the camera a lens parameter refers to
+ * @param lens - "back", "front", a 1-based lens number or a device ID
+ * @param cameras - Available cameras
+ * @returns CameraDevice | undefined - Matching camera
+ */
+export function resolveLens(
+	lens: string,
+	cameras: CameraDevice[],
+): CameraDevice | undefined {
+	const value = lens.toLowerCase();
+	if (value === "back") {
+		return cameras.find((c) => /back|rear|environment/i.test(c.label));
+	}
+	if (value === "front") {
+		return cameras.find((c) => /front|user|facetime/i.test(c.label));
+	}
+	if (/^\d+$/.test(value)) {
+		return cameras[Number(value) - 1];
+	}
+	return cameras.find((c) => c.deviceId === lens);
+}
+
+function formatRatio(ratio: number): string {
+	for (const [w, h] of [
+		[16, 9],
+		[9, 16],
+		[4, 3],
+		[3, 4],
+		[21, 9],
+		[1, 1],
+	] as const) {
+		if (Math.abs(ratio - w / h) < 0.01) return `${w}:${h}`;
+	}
+	return ratio.toFixed(2);
+}
+
+/**
+ * Format an exposure time as a shutter speed parameter
+ * @param exposureTime - Exposure time in milliseconds
+ * @returns string - "2s" from one second up, else N for 1/N seconds
+ */
+function formatShutter(exposureTime: number): string {
+	if (exposureTime >= 1000) {
+		return `${Number((exposureTime / 1000).toFixed(3))}s`;
+	}
+	return String(Number((1000 / exposureTime).toFixed(2)));
+}
+
+/**
+ * Encode camera settings as a query string
+ * @param cameras - Available cameras, to name the lens
+ * @param deviceId - Selected camera
+ * @param settings - Current settings
+ * @param aspectRatio - Selected aspect ratio
+ * @returns string - Query string for a shareable link, starting with "?"
+ */
+export function buildDeepLinkQuery(
+	cameras: CameraDevice[],
+	deviceId: string,
+	settings: CameraSettings,
+	aspectRatio: number,
+): string {
+	const params = new URLSearchParams();
+
+	const camera = cameras.find((c) => c.deviceId === deviceId);
+	if (camera) {
+		const lens = ["back", "front"].find(
+			(name) => resolveLens(name, cameras) === camera,
+		);
+		params.set("lens", lens ?? String(cameras.indexOf(camera) + 1));
+	}
+
+	if (settings.exposureMode === "manual") {
+		if (settings.iso !== undefined) params.set("iso", String(settings.iso));
+		if (settings.exposureTime !== undefined) {
+			params.set("shutter", formatShutter(settings.exposureTime));
+		}
+	} else if (settings.exposureCompensation !== undefined) {
+		params.set("ev", String(settings.exposureCompensation));
+	}
+	if (
+		settings.whiteBalanceMode === "manual" &&
+		settings.colorTemperature !== undefined
+	) {
+		params.set("wb", String(settings.colorTemperature));
+	}
+	if (settings.focusMode === "manual" && settings.focusDistance !== undefined) {
+		params.set("focus", String(settings.focusDistance));
+	}
+	if (settings.zoom !== undefined) params.set("zoom", String(settings.zoom));
+	params.set("ar", formatRatio(aspectRatio));
+	if (settings.width && settings.height) {
+		params.set("res", `${settings.width}x${settings.height}`);
+	}
+	if (settings.frameRate !== undefined) {
+		params.set("fps", String(settings.frameRate));
+	}
+	if (settings.torch) params.set("torch", "1");
+
+	// Colons are valid in a query and keep ratios like 4:3 readable
+	return `?${params.toString().replaceAll("%3A", ":")}`;
+}
@@ -0,0 +1,16 @@
+/**
+ * Trigger a browser download of a blob
+ * @param blob - File contents
+ * @param fileName - Suggested file name
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = fileName;
+	document.body.appendChild(link);
+	link.click();
+	link.remove();
+	// Give the browser a moment to start the download before releasing it
+	setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
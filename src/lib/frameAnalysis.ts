@@ -0,0 +1,374 @@
+/**
+ * Pixel analysis of preview frames for exposure tools
+ */
+
+export interface Histogram {
+	luma: Uint32Array;
+	red: Uint32Array;
+	green: Uint32Array;
+	blue: Uint32Array;
+	/** Number of pixels sampled */
+	total: number;
+	/** Percentage of pixels clipped to black (luma 0) */
+	clippedShadows: number;
+	/** Percentage of pixels clipped to white (luma 255) */
+	clippedHighlights: number;
+	/** Percentage of pixels with a blown red, green or blue channel */
+	clippedRed: number;
+	clippedGreen: number;
+	clippedBlue: number;
+}
+
+/**
+ * Rec. 709 luma of an sRGB pixel
+ * @returns number - Luma between 0 and 255
+ */
+export function getLuma(r: number, g: number, b: number): number {
+	return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Compute luma and per-channel histograms of a frame
+ * @param frame - Downscaled preview frame
+ * @returns Histogram - 256-bin histograms and clipping percentages
+ */
+export function computeHistogram(frame: ImageData): Histogram {
+	const luma = new Uint32Array(256);
+	const red = new Uint32Array(256);
+	const green = new Uint32Array(256);
+	const blue = new Uint32Array(256);
+	const { data } = frame;
+	const total = data.length / 4;
+
+	for (let i = 0; i < data.length; i += 4) {
+		const r = data[i] ?? 0;
+		const g = data[i + 1] ?? 0;
+		const b = data[i + 2] ?? 0;
+		red[r] = (red[r] ?? 0) + 1;
+		green[g] = (green[g] ?? 0) + 1;
+		blue[b] = (blue[b] ?? 0) + 1;
+		const y = Math.round(getLuma(r, g, b));
+		luma[y] = (luma[y] ?? 0) + 1;
+	}
+
+	const percent = (count: number) => (total > 0 ? (count / total) * 100 : 0);
+
+	return {
+		luma,
+		red,
+		green,
+		blue,
+		total,
+		clippedShadows: percent(luma[0] ?? 0),
+		clippedHighlights: percent(luma[255] ?? 0),
+		clippedRed: percent(red[255] ?? 0),
+		clippedGreen: percent(green[255] ?? 0),
+		clippedBlue: percent(blue[255] ?? 0),
+	};
+}
+
+/**
+ * Convert an IEC luma level to an 8-bit full-range value
+ * @param percent - Luma level, 0 (black) to 100 (white)
+ * @returns number - Value between 0 and 255
+ */
+export function iecToLuma(percent: number): number {
+	return (Math.min(100, Math.max(0, percent)) / 100) * 255;
+}
+
+/**
+ * Build a mask of the pixels at or above a luma threshold, e.g. for zebras
+ * @param frame - Downscaled preview frame
+ * @param thresholdPercent - IEC luma level, 0 to 100
+ * @returns ImageData - Opaque white where the frame exceeds the threshold
+ */
+export function computeZebraMask(
+	frame: ImageData,
+	thresholdPercent: number,
+): ImageData {
+	const threshold = iecToLuma(thresholdPercent);
+	const mask = new ImageData(frame.width, frame.height);
+	const { data } = frame;
+
+	for (let i = 0; i < data.length; i += 4) {
+		const y = getLuma(data[i] ?? 0, data[i + 1] ?? 0, data[i + 2] ?? 0);
+		if (y >= threshold) {
+			mask.data[i] = 255;
+			mask.data[i + 1] = 255;
+			mask.data[i + 2] = 255;
+			mask.data[i + 3] = 255;
+		}
+	}
+
+	return mask;
+}
+
+export interface FalseColorBand {
+	/** Lower bound, IEC luma percent (inclusive) */
+	min: number;
+	/** Upper bound, IEC luma percent (exclusive) */
+	max: number;
+	color: [number, number, number];
+	label: string;
+}
+
+/**
+ * False-color palette, modelled on the bands cinema monitors use.
+ * Luma outside every band is shown as grayscale.
+ */
+export const FALSE_COLOR_BANDS: FalseColorBand[] = [
+	{ min: 0, max: 2.5, color: [128, 0, 160], label: "Black clip" },
+	{ min: 2.5, max: 4, color: [0, 80, 255], label: "Near black" },
+	{ min: 38, max: 42, color: [40, 200, 40], label: "18% gray" },
+	{ min: 52, max: 56, color: [255, 110, 180], label: "Skin, +1 stop" },
+	{ min: 97, max: 99, color: [255, 230, 0], label: "Near clip" },
+	{ min: 99, max: Number.POSITIVE_INFINITY, color: [255, 0, 0], label: "Clip" },
+];
+
+// RGB lookup per 8-bit luma value
+const FALSE_COLOR_LUT = (() => {
+	const lut = new Uint8Array(256 * 3);
+	for (let y = 0; y < 256; y++) {
+		const percent = (y / 255) * 100;
+		const band = FALSE_COLOR_BANDS.find(
+			({ min, max }) => percent >= min && percent < max,
+		);
+		const [r, g, b] = band?.color ?? [y, y, y];
+		lut[y * 3] = r;
+		lut[y * 3 + 1] = g;
+		lut[y * 3 + 2] = b;
+	}
+	return lut;
+})();
+
+/**
+ * Map a frame to the false-color palette
+ * @param frame - Downscaled preview frame
+ * @returns ImageData - Frame of the same size in false color
+ */
+export function computeFalseColor(frame: ImageData): ImageData {
+	const output = new ImageData(frame.width, frame.height);
+	const { data } = frame;
+
+	for (let i = 0; i < data.length; i += 4) {
+		const y = Math.round(
+			getLuma(data[i] ?? 0, data[i + 1] ?? 0, data[i + 2] ?? 0),
+		);
+		output.data[i] = FALSE_COLOR_LUT[y * 3] ?? 0;
+		output.data[i + 1] = FALSE_COLOR_LUT[y * 3 + 1] ?? 0;
+		output.data[i + 2] = FALSE_COLOR_LUT[y * 3 + 2] ?? 0;
+		output.data[i + 3] = 255;
+	}
+
+	return output;
+}
+
+/**
+ * Highlight sharp edges of a frame for focus peaking
+ *
+ * Runs a Sobel filter over the luma plane; pixels whose gradient exceeds a
+ * threshold derived from the sensitivity are painted in the peaking color.
+ * @param frame - Downscaled preview frame
+ * @param sensitivity - 0 (only the strongest edges) to 1 (most edges)
+ * @param color - RGB color of the highlighted edges
+ * @returns ImageData - Transparent frame with the edges painted in
+ */
+export function computeFocusPeaking(
+	frame: ImageData,
+	sensitivity: number,
+	color: [number, number, number],
+): ImageData {
+	const { width, height, data } = frame;
+	const output = new ImageData(width, height);
+
+	const luma = new Float32Array(width * height);
+	for (let i = 0; i < luma.length; i++) {
+		luma[i] = getLuma(
+			data[i * 4] ?? 0,
+			data[i * 4 + 1] ?? 0,
+			data[i * 4 + 2] ?? 0,
+		);
+	}
+
+	// Gradient magnitude of a hard black/white edge is roughly 1000
+	const clamped = Math.min(1, Math.max(0, sensitivity));
+	const threshold = 400 - clamped * 340;
+	const thresholdSquared = threshold * threshold;
+	const at = (x: number, y: number) => luma[y * width + x] ?? 0;
+
+	for (let y = 1; y < height - 1; y++) {
+		for (let x = 1; x < width - 1; x++) {
+			const gx =
+				at(x + 1, y - 1) +
+				2 * at(x + 1, y) +
+				at(x + 1, y + 1) -
+				at(x - 1, y - 1) -
+				2 * at(x - 1, y) -
+				at(x - 1, y + 1);
+			const gy =
+				at(x - 1, y + 1) +
+				2 * at(x, y + 1) +
+				at(x + 1, y + 1) -
+				at(x - 1, y - 1) -
+				2 * at(x, y - 1) -
+				at(x + 1, y - 1);
+
+			if (gx * gx + gy * gy > thresholdSquared) {
+				const i = (y * width + x) * 4;
+				output.data[i] = color[0];
+				output.data[i + 1] = color[1];
+				output.data[i + 2] = color[2];
+				output.data[i + 3] = 255;
+			}
+		}
+	}
+
+	return output;
+}
+
+export type WaveformMode = "luma" | "parade";
+
+/** Number of value rows in a waveform */
+export const WAVEFORM_LEVELS = 128;
+
+/**
+ * Plot a luma waveform or an RGB parade of a frame
+ *
+ * Each column of the frame becomes a column of the scope, with brightness
+ * showing how many pixels of that column sit at each level. The parade puts
+ * the red, green and blue waveforms side by side.
+ * @param frame - Downscaled preview frame
+ * @param mode - Luma waveform or RGB parade
+ * @returns ImageData - Scope image, WAVEFORM_LEVELS rows high
+ */
+export function computeWaveform(
+	frame: ImageData,
+	mode: WaveformMode,
+): ImageData {
+	const { width, height, data } = frame;
+	const channels = mode === "parade" ? 3 : 1;
+	const counts = new Uint32Array(width * channels * WAVEFORM_LEVELS);
+	const scopeWidth = width * channels;
+	const toRow = (value: number) =>
+		WAVEFORM_LEVELS - 1 - Math.round((value / 255) * (WAVEFORM_LEVELS - 1));
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const i = (y * width + x) * 4;
+			const r = data[i] ?? 0;
+			const g = data[i + 1] ?? 0;
+			const b = data[i + 2] ?? 0;
+
+			if (mode === "luma") {
+				const index = toRow(getLuma(r, g, b)) * scopeWidth + x;
+				counts[index] = (counts[index] ?? 0) + 1;
+				continue;
+			}
+
+			for (const [channel, value] of [r, g, b].entries()) {
+				const index = toRow(value) * scopeWidth + channel * width + x;
+				counts[index] = (counts[index] ?? 0) + 1;
+			}
+		}
+	}
+
+	const output = new ImageData(scopeWidth, WAVEFORM_LEVELS);
+	// A column spreads its pixels over the levels; boost so sparse traces show
+	const gain = 1024 / height;
+	const tints: [number, number, number][] =
+		mode === "parade"
+			? [
+					[255, 70, 70],
+					[70, 255, 70],
+					[90, 130, 255],
+				]
+			: [[170, 255, 170]];
+
+	for (let row = 0; row < WAVEFORM_LEVELS; row++) {
+		for (let x = 0; x < scopeWidth; x++) {
+			const count = counts[row * scopeWidth + x] ?? 0;
+			if (count === 0) continue;
+
+			const tint = tints[Math.floor(x / width)] ?? [255, 255, 255];
+			const intensity = Math.min(1, 0.25 + count * gain * 0.01);
+			const i = (row * scopeWidth + x) * 4;
+			output.data[i] = tint[0];
+			output.data[i + 1] = tint[1];
+			output.data[i + 2] = tint[2];
+			output.data[i + 3] = Math.round(intensity * 255);
+		}
+	}
+
+	return output;
+}
+
+/**
+ * Position of a color on a vectorscope
+ *
+ * Uses Rec. 709 color difference signals, scaled so pure blue sits at x = 1
+ * and pure red at y = 1.
+ * @returns { x: number; y: number } - Coordinates between -1 and 1, y up
+ */
+export function getVectorscopePoint(
+	r: number,
+	g: number,
+	b: number,
+): { x: number; y: number } {
+	const y = getLuma(r, g, b);
+	return {
+		x: (b - y) / 1.8556 / 127.5,
+		y: (r - y) / 1.5748 / 127.5,
+	};
+}
+
+/**
+ * Plot the chroma of a frame on a vectorscope
+ * @param frame - Downscaled preview frame
+ * @param size - Width and height of the scope in pixels
+ * @returns ImageData - Square scope image, pixels tinted with their own hue
+ */
+export function computeVectorscope(frame: ImageData, size = 256): ImageData {
+	const { data } = frame;
+	const counts = new Uint32Array(size * size);
+	const colors = new Uint32Array(size * size * 3);
+	const radius = size / 2;
+
+	for (let i = 0; i < data.length; i += 4) {
+		const r = data[i] ?? 0;
+		const g = data[i + 1] ?? 0;
+		const b = data[i + 2] ?? 0;
+		const point = getVectorscopePoint(r, g, b);
+		const x = Math.round(radius + point.x * radius);
+		const y = Math.round(radius - point.y * radius);
+		if (x < 0 || x >= size || y < 0 || y >= size) continue;
+
+		const index = y * size + x;
+		counts[index] = (counts[index] ?? 0) + 1;
+		colors[index * 3] = (colors[index * 3] ?? 0) + r;
+		colors[index * 3 + 1] = (colors[index * 3 + 1] ?? 0) + g;
+		colors[index * 3 + 2] = (colors[index * 3 + 2] ?? 0) + b;
+	}
+
+	const output = new ImageData(size, size);
+	const gain = (size * size) / (data.length / 4);
+
+	for (let index = 0; index < counts.length; index++) {
+		const count = counts[index] ?? 0;
+		if (count === 0) continue;
+
+		// Average color of the pixels landing here, brightened for visibility
+		const r = (colors[index * 3] ?? 0) / count;
+		const g = (colors[index * 3 + 1] ?? 0) / count;
+		const b = (colors[index * 3 + 2] ?? 0) / count;
+		const boost = 255 / Math.max(r, g, b, 1);
+		const i = index * 4;
+		output.data[i] = Math.min(255, 60 + r * boost);
+		output.data[i + 1] = Math.min(255, 60 + g * boost);
+		output.data[i + 2] = Math.min(255, 60 + b * boost);
+		output.data[i + 3] = Math.round(
+			Math.min(1, 0.35 + count * gain * 0.05) * 255,
+		);
+	}
+
+	return output;
+}
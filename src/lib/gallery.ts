@@ -0,0 +1,325 @@
+/**
+ * Persistent capture gallery backed by IndexedDB
+ */
+
+import {
+	type CameraSettings,
+	type CaptureSource,
+	getCaptureFileName,
+	getImageExtension,
+} from "@bc/lib/camera";
+import { createZip } from "@bc/lib/zip";
+
+export interface GalleryCapture {
+	id: string;
+	blob: Blob;
+	thumbnail: Blob;
+	mimeType: string;
+	width: number;
+	height: number;
+	source: CaptureSource;
+	/** Capture time in milliseconds since epoch */
+	capturedAt: number;
+	/** Settings requested by the app */
+	settings: CameraSettings;
+	/** Settings the track actually reported at capture time */
+	trackSettings: MediaTrackSettings;
+	deviceId?: string;
+	deviceLabel?: string;
+	/** Camera page session the capture was taken in; missing on older records */
+	sessionId?: string;
+}
+
+export type NewGalleryCapture = Omit<GalleryCapture, "id" | "thumbnail">;
+
+export interface StorageUsage {
+	usage: number;
+	quota: number;
+	persisted: boolean;
+}
+
+const DB_NAME = "browsercam";
+const DB_VERSION = 2;
+const STORE_NAME = "captures";
+const THUMBNAIL_SIZE = 320;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		transaction.oncomplete = () => resolve();
+		transaction.onerror = () => reject(transaction.error);
+		transaction.onabort = () => reject(transaction.error);
+	});
+}
+
+/**
+ * Open (and create or upgrade) the gallery database
+ * @returns Promise<IDBDatabase> - Shared database connection
+ */
+function openGalleryDb(): Promise<IDBDatabase> {
+	if (dbPromise) return dbPromise;
+
+	dbPromise = new Promise((resolve, reject) => {
+		const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+		request.onupgradeneeded = (event) => {
+			const db = request.result;
+			const store = db.objectStoreNames.contains(STORE_NAME)
+				? request.transaction?.objectStore(STORE_NAME)
+				: db.createObjectStore(STORE_NAME, { keyPath: "id" });
+			if (!store) return;
+
+			if (event.oldVersion < 1) {
+				store.createIndex("capturedAt", "capturedAt");
+			}
+			if (event.oldVersion < 2) {
+				store.createIndex("sessionId", "sessionId");
+			}
+		};
+
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => {
+			dbPromise = null;
+			reject(request.error);
+		};
+	});
+
+	return dbPromise;
+}
+
+/**
+ * Get the ID of the current capture session
+ *
+ * A session lasts as long as the browser tab, so leaving for the gallery
+ * and coming back keeps adding to the same session.
+ * @returns string - Session ID
+ */
+export function getSessionId(): string {
+	const key = "browsercam:sessionId";
+	let sessionId = sessionStorage.getItem(key);
+	if (!sessionId) {
+		sessionId = crypto.randomUUID();
+		sessionStorage.setItem(key, sessionId);
+	}
+	return sessionId;
+}
+
+/**
+ * Render a small JPEG thumbnail of an image
+ * @param blob - Source image
+ * @param maxSize - Longest edge of the thumbnail in pixels
+ * @returns Promise<Blob> - JPEG thumbnail
+ */
+export async function createThumbnail(
+	blob: Blob,
+	maxSize = THUMBNAIL_SIZE,
+): Promise<Blob> {
+	const bitmap = await createImageBitmap(blob);
+	const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+
+	const canvas = document.createElement("canvas");
+	canvas.width = Math.round(bitmap.width * scale);
+	canvas.height = Math.round(bitmap.height * scale);
+
+	const context = canvas.getContext("2d");
+	if (!context) {
+		bitmap.close();
+		throw new Error("Could not get canvas context");
+	}
+
+	context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+	bitmap.close();
+
+	return new Promise((resolve, reject) => {
+		canvas.toBlob(
+			(thumbnail) =>
+				thumbnail
+					? resolve(thumbnail)
+					: reject(new Error("Could not encode thumbnail")),
+			"image/jpeg",
+			0.8,
+		);
+	});
+}
+
+/**
+ * Store a capture in the gallery
+ * @param capture - Captured image and its settings snapshot
+ * @returns Promise<GalleryCapture> - The stored record
+ */
+export async function saveCapture(
+	capture: NewGalleryCapture,
+): Promise<GalleryCapture> {
+	const record: GalleryCapture = {
+		...capture,
+		id: crypto.randomUUID(),
+		thumbnail: await createThumbnail(capture.blob),
+	};
+
+	const db = await openGalleryDb();
+	const transaction = db.transaction(STORE_NAME, "readwrite");
+	transaction.objectStore(STORE_NAME).add(record);
+	await transactionDone(transaction);
+
+	return record;
+}
+
+/**
+ * List all captures, newest first
+ * @returns Promise<GalleryCapture[]> - Stored captures
+ */
+export async function listCaptures(): Promise<GalleryCapture[]> {
+	const db = await openGalleryDb();
+	const index = db
+		.transaction(STORE_NAME, "readonly")
+		.objectStore(STORE_NAME)
+		.index("capturedAt");
+
+	const captures = await requestToPromise<GalleryCapture[]>(index.getAll());
+	return captures.reverse();
+}
+
+/**
+ * List the captures of one session, oldest first
+ * @param sessionId - Session ID, defaults to the current session
+ * @returns Promise<GalleryCapture[]> - Captures taken in the session
+ */
+export async function listSessionCaptures(
+	sessionId = getSessionId(),
+): Promise<GalleryCapture[]> {
+	const db = await openGalleryDb();
+	const index = db
+		.transaction(STORE_NAME, "readonly")
+		.objectStore(STORE_NAME)
+		.index("sessionId");
+
+	const captures = await requestToPromise<GalleryCapture[]>(
+		index.getAll(sessionId),
+	);
+	return captures.sort((a, b) => a.capturedAt - b.capturedAt);
+}
+
+/**
+ * Get a single capture
+ * @param id - Capture ID
+ * @returns Promise<GalleryCapture | undefined> - The capture, if it exists
+ */
+export async function getCapture(
+	id: string,
+): Promise<GalleryCapture | undefined> {
+	const db = await openGalleryDb();
+	return requestToPromise<GalleryCapture | undefined>(
+		db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).get(id),
+	);
+}
+
+/**
+ * Delete captures from the gallery
+ * @param ids - IDs of the captures to delete
+ */
+export async function deleteCaptures(ids: string[]): Promise<void> {
+	const db = await openGalleryDb();
+	const transaction = db.transaction(STORE_NAME, "readwrite");
+	const store = transaction.objectStore(STORE_NAME);
+	for (const id of ids) {
+		store.delete(id);
+	}
+	await transactionDone(transaction);
+}
+
+/**
+ * Bundle captures into a ZIP with a manifest.json describing every shot
+ * @param captures - Captures to export
+ * @returns Promise<Blob> - ZIP archive
+ */
+export async function exportCapturesAsZip(
+	captures: GalleryCapture[],
+): Promise<Blob> {
+	const usedNames = new Set<string>();
+	const files = captures.map((capture) => {
+		const extension = getImageExtension(capture.mimeType);
+		let name = getCaptureFileName(extension, capture.capturedAt);
+		// Several shots can land in the same second
+		for (let n = 2; usedNames.has(name); n++) {
+			name = getCaptureFileName(extension, capture.capturedAt).replace(
+				`.${extension}`,
+				`-${n}.${extension}`,
+			);
+		}
+		usedNames.add(name);
+		return { name, capture };
+	});
+
+	const manifest = {
+		app: "BrowserCam",
+		exportedAt: new Date().toISOString(),
+		userAgent: navigator.userAgent,
+		captureCount: captures.length,
+		captures: files.map(({ name, capture }) => ({
+			file: name,
+			capturedAt: new Date(capture.capturedAt).toISOString(),
+			sessionId: capture.sessionId,
+			deviceId: capture.deviceId,
+			deviceLabel: capture.deviceLabel,
+			source: capture.source,
+			mimeType: capture.mimeType,
+			width: capture.width,
+			height: capture.height,
+			size: capture.blob.size,
+			settings: capture.settings,
+			trackSettings: capture.trackSettings,
+		})),
+	};
+
+	return createZip([
+		...files.map(({ name, capture }) => ({
+			name,
+			data: capture.blob,
+			lastModified: capture.capturedAt,
+		})),
+		{ name: "manifest.json", data: JSON.stringify(manifest, null, 2) },
+	]);
+}
+
+/**
+ * Report how much storage the origin uses and may use
+ * @returns Promise<StorageUsage | null> - null if the Storage API is unavailable
+ */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+	if (!navigator.storage?.estimate) {
+		return null;
+	}
+
+	const estimate = await navigator.storage.estimate();
+	const persisted = (await navigator.storage.persisted?.()) ?? false;
+
+	return {
+		usage: estimate.usage ?? 0,
+		quota: estimate.quota ?? 0,
+		persisted,
+	};
+}
+
+/**
+ * Format a byte count for display
+ * @param bytes - Size in bytes
+ * @returns string - e.g. "4.2 MB"
+ */
+export function formatBytes(bytes: number): string {
+	const units = ["B", "KB", "MB", "GB", "TB"];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
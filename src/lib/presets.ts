@@ -0,0 +1,180 @@
+/**
+ * Named camera settings presets stored in localStorage
+ */
+
+import {
+	type CameraCapabilities,
+	type CameraDevice,
+	type CameraSettings,
+	type SettingAdjustment,
+	normalizeSettings,
+} from "@bc/lib/camera";
+
+export interface SettingsPreset {
+	id: string;
+	name: string;
+	/** Creation time in milliseconds since epoch */
+	createdAt: number;
+	/** Device group the preset was saved for, when the browser reports one */
+	groupId?: string;
+	/** Label of the camera the preset was saved for */
+	deviceLabel?: string;
+	settings: CameraSettings;
+	/** Aspect ratio selected in the aspect ratio panel */
+	aspectRatio: number;
+}
+
+export interface PresetApplication {
+	/** Settings clamped to what the camera can do */
+	settings: CameraSettings;
+	/** Human readable notes about every value that had to change */
+	warnings: string[];
+}
+
+type PresetDevice = Pick<CameraDevice, "groupId" | "label">;
+
+const STORAGE_KEY = "browsercam:presets";
+
+function readPresets(): SettingsPreset[] {
+	try {
+		const stored = localStorage.getItem(STORAGE_KEY);
+		return stored ? (JSON.parse(stored) as SettingsPreset[]) : [];
+	} catch (error) {
+		console.warn("Could not read presets:", error);
+		return [];
+	}
+}
+
+function writePresets(presets: SettingsPreset[]): void {
+	localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
+
+/**
+ * Check whether a preset belongs to a camera, by group ID or label
+ */
+function isPresetForDevice(
+	preset: SettingsPreset,
+	device: PresetDevice,
+): boolean {
+	if (preset.groupId && device.groupId) {
+		return preset.groupId === device.groupId;
+	}
+	return !!preset.deviceLabel && preset.deviceLabel === device.label;
+}
+
+/**
+ * List the presets saved for a camera, newest first
+ * @param device - Camera to list presets for
+ * @returns SettingsPreset[] - Matching presets
+ */
+export function listPresets(device: PresetDevice): SettingsPreset[] {
+	return readPresets()
+		.filter((preset) => isPresetForDevice(preset, device))
+		.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Save settings as a named preset for a camera
+ *
+ * A preset with the same name for the same camera is replaced.
+ * @param name - Preset name
+ * @param device - Camera the settings belong to
+ * @param settings - Settings to store
+ * @param aspectRatio - Selected aspect ratio
+ * @returns SettingsPreset - The stored preset
+ */
+export function savePreset(
+	name: string,
+	device: PresetDevice,
+	settings: CameraSettings,
+	aspectRatio: number,
+): SettingsPreset {
+	const preset: SettingsPreset = {
+		id: crypto.randomUUID(),
+		name: name.trim(),
+		createdAt: Date.now(),
+		groupId: device.groupId || undefined,
+		deviceLabel: device.label || undefined,
+		// Tap-to-focus points only make sense for the scene they were set on
+		settings: { ...settings, pointsOfInterest: undefined },
+		aspectRatio,
+	};
+
+	writePresets([
+		...readPresets().filter(
+			(p) => !(p.name === preset.name && isPresetForDevice(p, device)),
+		),
+		preset,
+	]);
+
+	return preset;
+}
+
+/**
+ * Delete a preset
+ * @param id - Preset ID
+ */
+export function deletePreset(id: string): void {
+	writePresets(readPresets().filter((preset) => preset.id !== id));
+}
+
+const SETTING_LABELS: Record<keyof CameraSettings, string> = {
+	aspectRatio: "Aspect ratio",
+	colorTemperature: "White balance",
+	exposureCompensation: "Exposure compensation",
+	exposureMode: "Exposure mode",
+	exposureTime: "Exposure time",
+	focusDistance: "Focus distance",
+	focusMode: "Focus mode",
+	frameRate: "Frame rate",
+	height: "Height",
+	iso: "ISO",
+	pointsOfInterest: "Focus point",
+	torch: "Torch",
+	whiteBalanceMode: "White balance mode",
+	width: "Width",
+	zoom: "Zoom",
+};
+
+function describeAdjustment({
+	key,
+	requested,
+	value,
+	reason,
+	range,
+}: SettingAdjustment): string {
+	const label = SETTING_LABELS[key];
+	switch (reason) {
+		case "unsupported":
+			return typeof requested === "string"
+				? `${label} "${requested}" is not supported on this lens`
+				: `${label} is not available on this lens`;
+		case "clamped":
+			return `${label} ${requested} is out of range, using ${value}${
+				range ? ` (${range.min}–${range.max})` : ""
+			}`;
+		case "snapped":
+			return `${label} ${requested} rounded to ${value}`;
+	}
+}
+
+/**
+ * Fit preset settings to the capabilities of the current camera
+ * @param settings - Settings stored in the preset
+ * @param capabilities - Capabilities of the current camera
+ * @returns PresetApplication - Settings to apply and warnings for the user
+ */
+export function fitPresetSettings(
+	settings: CameraSettings,
+	capabilities: CameraCapabilities,
+): PresetApplication {
+	const { settings: fitted, adjustments } = normalizeSettings(
+		settings,
+		capabilities,
+	);
+
+	return {
+		settings: fitted,
+		warnings: adjustments.map(describeAdjustment),
+	};
+}
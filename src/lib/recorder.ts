@@ -0,0 +1,233 @@
+/**
+ * Video recording utilities built on MediaRecorder
+ */
+
+export type RecordingContainer = "webm" | "mp4";
+
+export interface RecordingFormat {
+	mimeType: string;
+	container: RecordingContainer;
+	codec: string;
+	label: string;
+}
+
+export interface RecordingBitrate {
+	label: string;
+	videoBitsPerSecond: number;
+}
+
+export interface RecordingOptions {
+	mimeType?: string;
+	videoBitsPerSecond?: number;
+}
+
+export interface RecordingResult {
+	blob: Blob;
+	mimeType: string;
+	durationMs: number;
+	/** Recording start time in milliseconds since epoch */
+	recordedAt: number;
+	/** Settings the video track reported when recording started */
+	trackSettings: MediaTrackSettings;
+}
+
+export interface Recording {
+	readonly mimeType: string;
+	getState(): RecordingState;
+	getElapsedMs(): number;
+	pause(): void;
+	resume(): void;
+	stop(): Promise<RecordingResult>;
+}
+
+const CANDIDATE_FORMATS: RecordingFormat[] = [
+	{
+		mimeType: "video/webm;codecs=vp8",
+		container: "webm",
+		codec: "VP8",
+		label: "WebM · VP8",
+	},
+	{
+		mimeType: "video/webm;codecs=vp9",
+		container: "webm",
+		codec: "VP9",
+		label: "WebM · VP9",
+	},
+	{
+		mimeType: "video/webm;codecs=av01",
+		container: "webm",
+		codec: "AV1",
+		label: "WebM · AV1",
+	},
+	{
+		mimeType: "video/webm;codecs=h264",
+		container: "webm",
+		codec: "H.264",
+		label: "WebM · H.264",
+	},
+	{
+		mimeType: "video/mp4;codecs=avc1.42E01E",
+		container: "mp4",
+		codec: "H.264",
+		label: "MP4 · H.264",
+	},
+	{
+		mimeType: "video/mp4;codecs=vp9",
+		container: "mp4",
+		codec: "VP9",
+		label: "MP4 · VP9",
+	},
+	{
+		mimeType: "video/mp4;codecs=av01.0.08M.08",
+		container: "mp4",
+		codec: "AV1",
+		label: "MP4 · AV1",
+	},
+	{
+		mimeType: "video/mp4",
+		container: "mp4",
+		codec: "Default",
+		label: "MP4 · Browser default",
+	},
+];
+
+export const RECORDING_BITRATES: RecordingBitrate[] = [
+	{ label: "1 Mbps", videoBitsPerSecond: 1_000_000 },
+	{ label: "2.5 Mbps", videoBitsPerSecond: 2_500_000 },
+	{ label: "5 Mbps", videoBitsPerSecond: 5_000_000 },
+	{ label: "8 Mbps", videoBitsPerSecond: 8_000_000 },
+	{ label: "12 Mbps", videoBitsPerSecond: 12_000_000 },
+	{ label: "20 Mbps", videoBitsPerSecond: 20_000_000 },
+	{ label: "40 Mbps", videoBitsPerSecond: 40_000_000 },
+];
+
+/**
+ * Check if MediaRecorder is available in this browser
+ * @returns boolean - true if recording is possible
+ */
+export function isRecordingSupported(): boolean {
+	return typeof window !== "undefined" && "MediaRecorder" in window;
+}
+
+/**
+ * List the container/codec combinations this browser can actually record
+ * @returns RecordingFormat[] - Supported formats, most widely used first
+ */
+export function getSupportedRecordingFormats(): RecordingFormat[] {
+	if (!isRecordingSupported()) {
+		return [];
+	}
+
+	return CANDIDATE_FORMATS.filter((format) =>
+		MediaRecorder.isTypeSupported(format.mimeType),
+	);
+}
+
+/**
+ * Get the file extension matching a recorded MIME type
+ * @param mimeType - MIME type reported by MediaRecorder
+ * @returns string - "mp4" or "webm"
+ */
+export function getRecordingExtension(mimeType: string): RecordingContainer {
+	return mimeType.startsWith("video/mp4") ? "mp4" : "webm";
+}
+
+/**
+ * Start recording a camera stream
+ * @param stream - The MediaStream to record
+ * @param options - Optional MIME type and bitrate
+ * @returns Recording - Handle to pause, resume and stop the recording
+ */
+export function startRecording(
+	stream: MediaStream,
+	options: RecordingOptions = {},
+): Recording {
+	const recorder = new MediaRecorder(stream, {
+		...(options.mimeType && { mimeType: options.mimeType }),
+		...(options.videoBitsPerSecond && {
+			videoBitsPerSecond: options.videoBitsPerSecond,
+		}),
+	});
+	const chunks: Blob[] = [];
+
+	// Track elapsed time excluding paused periods
+	let startedAt = performance.now();
+	let pausedAt: number | null = null;
+	let pausedTotal = 0;
+	let stopPromise: Promise<RecordingResult> | null = null;
+	const recordedAt = Date.now();
+	const trackSettings = stream.getVideoTracks()[0]?.getSettings() ?? {};
+
+	const getElapsedMs = () => {
+		const now = pausedAt ?? performance.now();
+		return now - startedAt - pausedTotal;
+	};
+
+	recorder.ondataavailable = (event) => {
+		if (event.data.size > 0) {
+			chunks.push(event.data);
+		}
+	};
+
+	recorder.start(1000);
+	startedAt = performance.now();
+
+	return {
+		mimeType: recorder.mimeType,
+		getState: () => recorder.state,
+		getElapsedMs,
+		pause() {
+			if (recorder.state !== "recording") return;
+			recorder.pause();
+			pausedAt = performance.now();
+		},
+		resume() {
+			if (recorder.state !== "paused" || pausedAt === null) return;
+			recorder.resume();
+			pausedTotal += performance.now() - pausedAt;
+			pausedAt = null;
+		},
+		stop() {
+			if (stopPromise) return stopPromise;
+
+			const durationMs = getElapsedMs();
+			stopPromise = new Promise((resolve, reject) => {
+				const finish = () => {
+					const mimeType =
+						recorder.mimeType || options.mimeType || "video/webm";
+					resolve({
+						blob: new Blob(chunks, { type: mimeType }),
+						mimeType,
+						durationMs,
+						recordedAt,
+						trackSettings,
+					});
+				};
+
+				// The recorder stops on its own when the stream's tracks end
+				if (recorder.state === "inactive") {
+					finish();
+					return;
+				}
+
+				recorder.onstop = finish;
+				recorder.onerror = () => reject(new Error("Recording failed"));
+				recorder.stop();
+			});
+
+			return stopPromise;
+		},
+	};
+}
+
+/**
+ * Format a recording duration as mm:ss
+ * @param ms - Duration in milliseconds
+ * @returns string - Formatted duration
+ */
+export function formatRecordingTime(ms: number): string {
+	const totalSeconds = Math.floor(ms / 1000);
+	const minutes = Math.floor(totalSeconds / 60);
+	const seconds = totalSeconds % 60;
+	return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+}
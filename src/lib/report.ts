@@ -0,0 +1,496 @@
+/**
+ * Capability reports documenting every camera on a device
+ */
+
+import {
+	type CameraCapabilities,
+	listCameras,
+	probeCamera,
+} from "@bc/lib/camera";
+import { z } from "zod";
+
+export interface LensReport {
+	deviceId: string;
+	label: string;
+	groupId: string;
+	capabilities?: CameraCapabilities;
+	/** Everything the track reports, including keys the app does not use */
+	rawCapabilities?: MediaTrackCapabilities;
+	/** Track settings right after opening the camera without constraints */
+	defaultSettings?: MediaTrackSettings;
+	/** Why the lens could not be probed */
+	error?: string;
+}
+
+export interface EnvironmentInfo {
+	userAgent: string;
+	platform: string;
+	language: string;
+	screen: { width: number; height: number; devicePixelRatio: number };
+	/** High entropy client hints, where the browser provides them */
+	userAgentData?: Record<string, unknown>;
+}
+
+export interface CapabilityReport {
+	app: "BrowserCam";
+	/** Report format version, bumped on incompatible changes */
+	version: 1;
+	generatedAt: string;
+	environment: EnvironmentInfo;
+	lenses: LensReport[];
+}
+
+// Client hints are not in lib.dom yet
+interface NavigatorUAData {
+	platform: string;
+	getHighEntropyValues(hints: string[]): Promise<Record<string, unknown>>;
+}
+
+async function getEnvironmentInfo(): Promise<EnvironmentInfo> {
+	const uaData = (navigator as Navigator & { userAgentData?: NavigatorUAData })
+		.userAgentData;
+
+	let userAgentData: Record<string, unknown> | undefined;
+	try {
+		userAgentData = await uaData?.getHighEntropyValues([
+			"platform",
+			"platformVersion",
+			"model",
+			"fullVersionList",
+		]);
+	} catch (error) {
+		console.warn("Could not read user agent client hints:", error);
+	}
+
+	return {
+		userAgent: navigator.userAgent,
+		platform: uaData?.platform ?? navigator.platform,
+		language: navigator.language,
+		screen: {
+			width: screen.width,
+			height: screen.height,
+			devicePixelRatio: window.devicePixelRatio,
+		},
+		userAgentData,
+	};
+}
+
+/**
+ * Probe every camera and collect a capability report
+ *
+ * Cameras are opened one at a time; a lens that fails to open is recorded
+ * with its error instead of aborting the report.
+ * @param onProgress - Called before each lens is probed
+ * @returns Promise<CapabilityReport> - Report covering every camera
+ */
+export async function createCapabilityReport(
+	onProgress?: (done: number, total: number) => void,
+): Promise<CapabilityReport> {
+	const cameras = await listCameras();
+	const lenses: LensReport[] = [];
+
+	for (const [index, camera] of cameras.entries()) {
+		onProgress?.(index, cameras.length);
+		const lens: LensReport = {
+			deviceId: camera.deviceId,
+			label: camera.label,
+			groupId: camera.groupId,
+		};
+
+		try {
+			Object.assign(lens, await probeCamera(camera.deviceId));
+		} catch (error) {
+			lens.error = error instanceof Error ? error.message : String(error);
+		}
+
+		lenses.push(lens);
+	}
+	onProgress?.(cameras.length, cameras.length);
+
+	return {
+		app: "BrowserCam",
+		version: 1,
+		generatedAt: new Date().toISOString(),
+		environment: await getEnvironmentInfo(),
+		lenses,
+	};
+}
+
+/**
+ * Format a capability or setting value for a table cell
+ * @param value - Range, list, flag or plain value
+ * @returns string - e.g. "100–3200 (step 1)", "auto, manual", "yes"
+ */
+export function formatCapability(value: unknown): string {
+	if (value === undefined || value === null) return "—";
+	if (typeof value === "boolean") return value ? "yes" : "no";
+	if (typeof value === "number") {
+		return Number.isInteger(value) ? String(value) : value.toFixed(3);
+	}
+	if (Array.isArray(value)) return value.map(formatCapability).join(", ");
+	if (typeof value === "object") {
+		const { min, max, step } = value as Record<string, unknown>;
+		if (min !== undefined || max !== undefined) {
+			const range = `${formatCapability(min)}–${formatCapability(max)}`;
+			return step ? `${range} (step ${formatCapability(step)})` : range;
+		}
+		return JSON.stringify(value);
+	}
+	return String(value);
+}
+
+// Opaque per-origin identifiers, shown in the lens header instead
+const HIDDEN_KEYS = new Set(["deviceId", "groupId"]);
+
+export interface ReportTable {
+	title: string;
+	/** Column headers: "Property" followed by one column per lens */
+	columns: string[];
+	/** Device ID of the lens behind each value column */
+	deviceIds: string[];
+	rows: string[][];
+}
+
+function buildTable(
+	title: string,
+	lenses: LensReport[],
+	pick: (lens: LensReport) => object | undefined,
+): ReportTable {
+	const keys = new Set<string>();
+	for (const lens of lenses) {
+		for (const key of Object.keys(pick(lens) ?? {})) {
+			if (!HIDDEN_KEYS.has(key)) keys.add(key);
+		}
+	}
+
+	return {
+		title,
+		columns: [
+			"Property",
+			...lenses.map((lens, i) => lens.label || `Lens ${i + 1}`),
+		],
+		deviceIds: lenses.map((lens) => lens.deviceId),
+		rows: [...keys]
+			.sort()
+			.map((key) => [
+				key,
+				...lenses.map((lens) =>
+					formatCapability((pick(lens) as Record<string, unknown>)?.[key]),
+				),
+			]),
+	};
+}
+
+/**
+ * Arrange a report as tables with one column per lens
+ * @param report - Capability report
+ * @returns ReportTable[] - Capabilities and default settings tables
+ */
+export function getReportTables(report: CapabilityReport): ReportTable[] {
+	return [
+		buildTable("Capabilities", report.lenses, (lens) => lens.rawCapabilities),
+		buildTable(
+			"Default settings",
+			report.lenses,
+			(lens) => lens.defaultSettings,
+		),
+	];
+}
+
+function getEnvironmentRows(report: CapabilityReport): [string, string][] {
+	const { environment } = report;
+	return [
+		["Generated", report.generatedAt],
+		["User agent", environment.userAgent],
+		["Platform", environment.platform],
+		["Language", environment.language],
+		[
+			"Screen",
+			`${environment.screen.width}×${environment.screen.height} @${environment.screen.devicePixelRatio}x`,
+		],
+		...Object.entries(environment.userAgentData ?? {}).map(
+			([key, value]): [string, string] => [key, formatCapability(value)],
+		),
+	];
+}
+
+/**
+ * Serialize a report as pretty-printed JSON
+ * @param report - Capability report
+ * @returns string - JSON document
+ */
+export function reportToJson(report: CapabilityReport): string {
+	return JSON.stringify(report, null, 2);
+}
+
+function escapeMarkdown(value: string): string {
+	return value.replaceAll("|", "\\|").replaceAll("\n", " ");
+}
+
+/**
+ * Render a report as Markdown tables
+ * @param report - Capability report
+ * @returns string - Markdown document
+ */
+export function reportToMarkdown(report: CapabilityReport): string {
+	const row = (cells: string[]) =>
+		`| ${cells.map(escapeMarkdown).join(" | ")} |`;
+	const table = (columns: string[], rows: string[][]) =>
+		[row(columns), row(columns.map(() => "---")), ...rows.map(row)].join("\n");
+
+	const lines = [
+		"# BrowserCam capability report",
+		"",
+		table(["", ""], getEnvironmentRows(report)),
+	];
+
+	for (const { title, columns, rows } of getReportTables(report)) {
+		lines.push("", `## ${title}`, "", table(columns, rows));
+	}
+
+	const failed = report.lenses.filter((lens) => lens.error);
+	if (failed.length > 0) {
+		lines.push("", "## Errors", "");
+		for (const lens of failed) {
+			lines.push(`- ${escapeMarkdown(lens.label)}: ${lens.error}`);
+		}
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replaceAll("&", "&amp;")
+		.replaceAll("<", "&lt;")
+		.replaceAll(">", "&gt;")
+		.replaceAll('"', "&quot;");
+}
+
+/**
+ * Render a report as a standalone HTML page
+ * @param report - Capability report
+ * @returns string - HTML document
+ */
+export function reportToHtml(report: CapabilityReport): string {
+	const table = (columns: string[], rows: string[][]) =>
+		`<table><thead><tr>${columns
+			.map((column) => `<th>${escapeHtml(column)}</th>`)
+			.join("")}</tr></thead><tbody>${rows
+			.map(
+				(cells) =>
+					`<tr>${cells.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`,
+			)
+			.join("")}</tbody></table>`;
+
+	const sections = getReportTables(report).map(
+		({ title, columns, rows }) =>
+			`<h2>${escapeHtml(title)}</h2>${table(columns, rows)}`,
+	);
+
+	const failed = report.lenses.filter((lens) => lens.error);
+	if (failed.length > 0) {
+		sections.push(
+			`<h2>Errors</h2><ul>${failed
+				.map(
+					(lens) =>
+						`<li>${escapeHtml(lens.label)}: ${escapeHtml(lens.error ?? "")}</li>`,
+				)
+				.join("")}</ul>`,
+		);
+	}
+
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>BrowserCam capability report</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+table { border-collapse: collapse; margin-bottom: 2rem; font-size: 0.85rem; }
+th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f0f0f0; }
+td:first-child { font-family: ui-monospace, monospace; }
+</style>
+</head>
+<body>
+<h1>BrowserCam capability report</h1>
+${table(["", ""], getEnvironmentRows(report))}
+${sections.join("\n")}
+</body>
+</html>
+`;
+}
+
+const reportSchema = z.object({
+	app: z.literal("BrowserCam"),
+	version: z.literal(1),
+	generatedAt: z.string(),
+	environment: z
+		.object({
+			userAgent: z.string(),
+			platform: z.string(),
+		})
+		.passthrough(),
+	lenses: z.array(
+		z
+			.object({
+				deviceId: z.string(),
+				label: z.string(),
+			})
+			.passthrough(),
+	),
+});
+
+/**
+ * Read a report exported as JSON, e.g. from another phone
+ * @param json - Contents of an exported report file
+ * @returns CapabilityReport - The parsed report
+ * @throws Error if the file is not a BrowserCam capability report
+ */
+export function parseCapabilityReport(json: string): CapabilityReport {
+	let data: unknown;
+	try {
+		data = JSON.parse(json);
+	} catch {
+		throw new Error("Not a valid JSON file");
+	}
+
+	const result = reportSchema.safeParse(data);
+	if (!result.success) {
+		const issue = result.error.issues[0];
+		throw new Error(
+			`Not a BrowserCam capability report (${issue?.path.join(".") || "root"}: ${issue?.message})`,
+		);
+	}
+
+	return data as CapabilityReport;
+}
+
+/**
+ * Short name for the device a report was taken on
+ * @param report - Capability report
+ * @returns string - Phone model where known, otherwise the platform
+ */
+export function getReportDeviceName(report: CapabilityReport): string {
+	const model = report.environment.userAgentData?.model;
+	return typeof model === "string" && model
+		? model
+		: report.environment.platform || "Unknown device";
+}
+
+// Every CameraCapabilities field, in the order the matrix shows them
+const CAPABILITY_FIELDS = [
+	"exposureMode",
+	"exposureTime",
+	"iso",
+	"exposureCompensation",
+	"focusMode",
+	"focusDistance",
+	"pointsOfInterest",
+	"whiteBalanceMode",
+	"colorTemperature",
+	"zoom",
+	"torch",
+	"frameRate",
+	"width",
+	"height",
+	"aspectRatio",
+	"resizeMode",
+	"facingMode",
+] as const satisfies readonly (keyof CameraCapabilities)[];
+
+// Derived rows answering the questions people compare lenses for
+const SUMMARY_ROWS: [string, (capabilities: CameraCapabilities) => boolean][] =
+	[
+		[
+			"Manual exposure",
+			(c) => !!c.exposureMode?.includes("manual") && !!c.exposureTime,
+		],
+		["Manual ISO", (c) => !!c.iso],
+		[
+			"Manual focus",
+			(c) => !!c.focusMode?.includes("manual") && !!c.focusDistance,
+		],
+		["Manual white balance", (c) => !!c.colorTemperature],
+		["Optical/digital zoom", (c) => !!c.zoom && c.zoom.max > c.zoom.min],
+	];
+
+export interface ComparisonColumn {
+	/** Unique across the compared reports: report index and device ID */
+	id: string;
+	/** Device the lens belongs to */
+	device: string;
+	lens: string;
+	capabilities?: CameraCapabilities;
+}
+
+export interface ComparisonRow {
+	property: string;
+	values: string[];
+	/** Whether the lenses disagree on this property */
+	differs: boolean;
+	/** Per cell: whether it differs from the most common value in the row */
+	outliers: boolean[];
+}
+
+/**
+ * List the lenses of several reports as comparison columns
+ * @param reports - Reports to compare, e.g. this device plus loaded files
+ * @returns ComparisonColumn[] - One column per lens
+ */
+export function getComparisonColumns(
+	reports: CapabilityReport[],
+): ComparisonColumn[] {
+	return reports.flatMap((report, reportIndex) =>
+		report.lenses.map((lens, i) => ({
+			id: `${reportIndex}:${lens.deviceId}`,
+			device: getReportDeviceName(report),
+			lens: lens.label || `Lens ${i + 1}`,
+			capabilities: lens.capabilities,
+		})),
+	);
+}
+
+function toComparisonRow(property: string, values: string[]): ComparisonRow {
+	const counts = new Map<string, number>();
+	for (const value of values) {
+		counts.set(value, (counts.get(value) ?? 0) + 1);
+	}
+	const [common] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+
+	return {
+		property,
+		values,
+		differs: counts.size > 1,
+		outliers: values.map((value) => counts.size > 1 && value !== common),
+	};
+}
+
+/**
+ * Build a matrix of every capability across lenses
+ * @param columns - Lenses to compare
+ * @returns ComparisonRow[] - Summary rows followed by one row per field
+ */
+export function buildComparisonMatrix(
+	columns: ComparisonColumn[],
+): ComparisonRow[] {
+	return [
+		...SUMMARY_ROWS.map(([property, test]) =>
+			toComparisonRow(
+				property,
+				columns.map(({ capabilities }) =>
+					capabilities ? formatCapability(test(capabilities)) : "—",
+				),
+			),
+		),
+		...CAPABILITY_FIELDS.map((field) =>
+			toComparisonRow(
+				field,
+				columns.map(({ capabilities }) =>
+					formatCapability(capabilities?.[field]),
+				),
+			),
+		),
+	];
+}
@@ -0,0 +1,122 @@
+/**
+ * Web Share helpers for captures and recordings
+ */
+
+import { downloadBlob } from "@bc/lib/download";
+
+export type ShareOutcome = "shared" | "cancelled" | "downloaded";
+
+export interface ShareResult {
+	outcome: ShareOutcome;
+	/** Whether the settings summary was copied to the clipboard */
+	copiedText: boolean;
+}
+
+export interface ShareFileOptions {
+	file: File;
+	title?: string;
+	text?: string;
+}
+
+/**
+ * Summarize the settings a capture was taken with, e.g. for a share message
+ * @param trackSettings - Settings the track reported at capture time
+ * @param lensLabel - Optional lens label
+ * @returns string - Multi-line human readable summary
+ */
+export function formatSettingsSummary(
+	trackSettings: MediaTrackSettings,
+	lensLabel?: string,
+): string {
+	const exposure = [
+		trackSettings.iso !== undefined && `ISO ${trackSettings.iso}`,
+		trackSettings.exposureTime !== undefined &&
+			`1/${Math.round(1000 / trackSettings.exposureTime)}s`,
+		trackSettings.exposureCompensation !== undefined &&
+			`EV ${trackSettings.exposureCompensation > 0 ? "+" : ""}${trackSettings.exposureCompensation.toFixed(1)}`,
+		trackSettings.colorTemperature !== undefined &&
+			`WB ${trackSettings.colorTemperature}K`,
+		trackSettings.zoom !== undefined &&
+			`Zoom ${trackSettings.zoom.toFixed(1)}x`,
+		trackSettings.focusMode === "manual" &&
+			trackSettings.focusDistance !== undefined &&
+			`Focus ${trackSettings.focusDistance.toFixed(2)}m`,
+	].filter(Boolean);
+
+	const stream = [
+		trackSettings.width &&
+			trackSettings.height &&
+			`${trackSettings.width}×${trackSettings.height}`,
+		trackSettings.frameRate !== undefined &&
+			`${Math.round(trackSettings.frameRate)} fps`,
+		trackSettings.exposureMode && `AE ${trackSettings.exposureMode}`,
+		trackSettings.focusMode && `AF ${trackSettings.focusMode}`,
+		trackSettings.whiteBalanceMode && `AWB ${trackSettings.whiteBalanceMode}`,
+	].filter(Boolean);
+
+	return [
+		lensLabel && `Lens: ${lensLabel}`,
+		exposure.length > 0 && exposure.join(" · "),
+		stream.length > 0 && stream.join(" · "),
+		"Captured with BrowserCam",
+	]
+		.filter(Boolean)
+		.join("\n");
+}
+
+async function copyText(text: string): Promise<boolean> {
+	try {
+		await navigator.clipboard.writeText(text);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Share a file through the Web Share API
+ *
+ * Falls back to downloading the file (and copying the text to the clipboard)
+ * when the browser cannot share files.
+ * @param options - File plus optional title and text
+ * @returns Promise<ShareResult> - What actually happened
+ */
+export async function shareFile({
+	file,
+	title,
+	text,
+}: ShareFileOptions): Promise<ShareResult> {
+	if (navigator.canShare?.({ files: [file] })) {
+		try {
+			await navigator.share({ files: [file], title, text });
+			return { outcome: "shared", copiedText: false };
+		} catch (error) {
+			if (error instanceof Error && error.name === "AbortError") {
+				return { outcome: "cancelled", copiedText: false };
+			}
+			console.warn("Web Share failed, falling back to download:", error);
+		}
+	}
+
+	downloadBlob(file, file.name);
+	const copiedText = text ? await copyText(text) : false;
+	return { outcome: "downloaded", copiedText };
+}
+
+/**
+ * Describe a share result for a short status message
+ * @param result - Result of shareFile()
+ * @returns string | null - Message, or null when nothing needs to be shown
+ */
+export function describeShareResult(result: ShareResult): string | null {
+	switch (result.outcome) {
+		case "shared":
+			return "Shared";
+		case "cancelled":
+			return null;
+		case "downloaded":
+			return result.copiedText
+				? "Sharing unavailable · downloaded, settings copied"
+				: "Sharing unavailable · downloaded";
+	}
+}
@@ -0,0 +1,70 @@
+/**
+ * Rate limiting for calls that must not flood a slow consumer
+ */
+
+export interface Throttled<Args extends unknown[]> {
+	(...args: Args): void;
+	/** Drop any pending call */
+	cancel(): void;
+}
+
+/**
+ * Throttle a function so it runs at most once per interval
+ *
+ * The first call runs immediately. Calls made during the interval, or while
+ * a previous async run is still in flight, are collapsed into a single
+ * trailing run with the latest arguments, so the final value always lands.
+ * @param fn - Function to throttle, may return a promise
+ * @param intervalMs - Minimum time between runs in milliseconds
+ * @returns Throttled - Throttled function with a cancel() method
+ */
+export function throttle<Args extends unknown[]>(
+	fn: (...args: Args) => unknown,
+	intervalMs: number,
+): Throttled<Args> {
+	let lastRun = 0;
+	let running = false;
+	let pending: Args | null = null;
+	let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+	const run = async (args: Args) => {
+		running = true;
+		lastRun = Date.now();
+		try {
+			await fn(...args);
+		} finally {
+			running = false;
+			schedule();
+		}
+	};
+
+	const schedule = () => {
+		if (!pending || running || timeoutId !== undefined) return;
+
+		const wait = lastRun + intervalMs - Date.now();
+		if (wait <= 0) {
+			const args = pending;
+			pending = null;
+			void run(args);
+			return;
+		}
+
+		timeoutId = setTimeout(() => {
+			timeoutId = undefined;
+			schedule();
+		}, wait);
+	};
+
+	const throttled = (...args: Args) => {
+		pending = args;
+		schedule();
+	};
+
+	throttled.cancel = () => {
+		pending = null;
+		clearTimeout(timeoutId);
+		timeoutId = undefined;
+	};
+
+	return throttled;
+}
@@ -0,0 +1,169 @@
+import type {
+	CameraCapabilities,
+	CameraSettings,
+	PointOfInterest,
+	Resolution,
+	SettingsDiff,
+} from "@bc/lib/camera";
+import {
+	CameraController,
+	type CameraControllerState,
+	type CameraError,
+	type CameraStatus,
+	type InitialSettings,
+	describeCameraError,
+} from "@bc/lib/cameraController";
+import { useCameraCapabilities } from "@bc/lib/useCameraCapabilities";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+export interface UseCameraOptions {
+	/** Camera to stream from, nothing is opened while it is empty */
+	deviceId: string | null | undefined;
+	/**
+	 * Settings to open the camera with, or a function deriving them from its
+	 * capabilities; read whenever the camera is (re)opened
+	 */
+	settings?: InitialSettings;
+}
+
+export interface UseCameraResult {
+	/** Underlying controller, for views that need more than the hook offers */
+	controller: CameraController;
+	status: CameraStatus;
+	stream: MediaStream | null;
+	capabilities: CameraCapabilities | null;
+	/** Resolutions the camera verifiably delivers, largest first */
+	resolutions: Resolution[];
+	/** Settings last requested, fitted to the capabilities */
+	settings: CameraSettings;
+	/** Settings the video track reports */
+	actualSettings: MediaTrackSettings | null;
+	/** Requested vs. actual value of every requested setting */
+	diff: SettingsDiff;
+	error: CameraError | null;
+	/** Replace all settings of the live stream */
+	apply: (settings: CameraSettings) => Promise<SettingsDiff>;
+	/** Change some settings of the live stream */
+	update: (patch: CameraSettings) => Promise<SettingsDiff>;
+	/** Focus and meter once on a point, without changing the settings */
+	focusAt: (point: PointOfInterest) => Promise<void>;
+	/** Reopen the camera, e.g. for a new resolution */
+	restart: (settings?: CameraSettings) => Promise<void>;
+	/** Open the camera from scratch after an error */
+	retry: () => void;
+}
+
+/**
+ * Custom hook to stream from a camera through a CameraController
+ *
+ * Opens the camera when the device ID is set or changes and stops it on
+ * unmount.
+ * @param options - Device ID and initial settings
+ * @returns Stream, requested and actual settings, status, errors and
+ * functions to change the settings
+ */
+export function useCamera({
+	deviceId,
+	settings: initialSettings = {},
+}: UseCameraOptions): UseCameraResult {
+	const [controller] = useState(() => new CameraController());
+	const [state, setState] = useState<CameraControllerState>(() =>
+		controller.getState(),
+	);
+	// Close the previous camera before the next one is read, phones often
+	// cannot open two cameras at once
+	useEffect(() => {
+		if (controller.getState().deviceId !== deviceId) void controller.stop();
+	}, [controller, deviceId]);
+
+	const {
+		deviceId: probedDeviceId,
+		capabilities: probedCapabilities,
+		error: probeError,
+		refresh: refreshCapabilities,
+	} = useCameraCapabilities(deviceId);
+
+	// Read the initial settings when opening, not when they change
+	const initialSettingsRef = useRef(initialSettings);
+	initialSettingsRef.current = initialSettings;
+
+	useEffect(() => controller.on("statechange", setState), [controller]);
+
+	// Release the camera when leaving the view
+	useEffect(() => () => void controller.stop(), [controller]);
+
+	// Only open the camera with capabilities read from that same camera
+	const capabilities =
+		deviceId && probedDeviceId === deviceId ? probedCapabilities : null;
+
+	useEffect(() => {
+		if (!deviceId || !capabilities) return;
+		void controller.start(deviceId, initialSettingsRef.current, capabilities);
+	}, [controller, deviceId, capabilities]);
+
+	const retry = useCallback(() => {
+		if (!deviceId) return;
+		if (!capabilities) {
+			// Reading the capabilities failed, the start follows once they load
+			refreshCapabilities();
+			return;
+		}
+		void controller.start(deviceId, initialSettingsRef.current, capabilities);
+	}, [controller, deviceId, capabilities, refreshCapabilities]);
+
+	// Until the controller starts, the capability read stands in for it
+	const waitingForCapabilities =
+		!!deviceId && !capabilities && state.deviceId !== deviceId;
+	const status: CameraStatus = !waitingForCapabilities
+		? state.status
+		: probeError
+			? "error"
+			: "requesting";
+	const error = useMemo(
+		() =>
+			waitingForCapabilities && probeError
+				? describeCameraError(probeError)
+				: state.error,
+		[waitingForCapabilities, probeError, state.error],
+	);
+
+	const actualSettings = useMemo(
+		() => state.stream?.getVideoTracks()[0]?.getSettings() ?? null,
+		// Re-read after every transition, e.g. once settings were applied
+		[state],
+	);
+
+	const apply = useCallback(
+		(settings: CameraSettings) => controller.apply(settings),
+		[controller],
+	);
+	const update = useCallback(
+		(patch: CameraSettings) => controller.update(patch),
+		[controller],
+	);
+	const focusAt = useCallback(
+		(point: PointOfInterest) => controller.focusAt(point),
+		[controller],
+	);
+	const restart = useCallback(
+		(settings?: CameraSettings) => controller.restart(settings),
+		[controller],
+	);
+
+	return {
+		controller,
+		status,
+		stream: state.stream,
+		capabilities: state.capabilities,
+		resolutions: state.resolutions,
+		settings: state.settings,
+		actualSettings,
+		diff: state.diff,
+		error,
+		apply,
+		update,
+		focusAt,
+		restart,
+		retry,
+	};
+}
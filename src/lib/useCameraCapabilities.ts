@@ -0,0 +1,93 @@
+import { type CameraCapabilities, getCameraCapabilities } from "@bc/lib/camera";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+// Reading capabilities opens the camera, so each device is only read once
+const capabilitiesCache = new Map<string, CameraCapabilities>();
+
+interface CapabilitiesRequest {
+	deviceId: string;
+	/** Bumped by refresh, so a refreshed read never matches an older one */
+	generation: number;
+}
+
+interface CapabilitiesRead extends CapabilitiesRequest {
+	capabilities: CameraCapabilities | null;
+	error: unknown;
+}
+
+/**
+ * Custom hook to read the capabilities of a camera
+ *
+ * Must not run while another view streams from the same camera, as reading
+ * capabilities briefly opens it; results are cached per device.
+ * @param deviceId - Camera device ID, nothing is read while it is empty
+ * @returns Device the result belongs to (null while loading), capabilities
+ * (null until read), loading flag, the error if reading failed and a
+ * function to read them again
+ */
+export function useCameraCapabilities(deviceId: string | null | undefined): {
+	deviceId: string | null;
+	capabilities: CameraCapabilities | null;
+	isLoading: boolean;
+	error: unknown;
+	refresh: () => void;
+} {
+	const [read, setRead] = useState<CapabilitiesRead | null>(null);
+	const [generation, setGeneration] = useState(0);
+
+	const refresh = useCallback(() => {
+		if (deviceId) capabilitiesCache.delete(deviceId);
+		setGeneration((n) => n + 1);
+	}, [deviceId]);
+
+	const request = useMemo<CapabilitiesRequest | null>(
+		() => (deviceId ? { deviceId, generation } : null),
+		[deviceId, generation],
+	);
+
+	useEffect(() => {
+		if (!request) return;
+		const cached = capabilitiesCache.get(request.deviceId);
+		if (cached) {
+			setRead({ ...request, capabilities: cached, error: null });
+			return;
+		}
+
+		let cancelled = false;
+		getCameraCapabilities(request.deviceId)
+			.then((capabilities) => {
+				capabilitiesCache.set(request.deviceId, capabilities);
+				if (!cancelled) setRead({ ...request, capabilities, error: null });
+			})
+			.catch((error: unknown) => {
+				if (!cancelled) setRead({ ...request, capabilities: null, error });
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [request]);
+
+	// A read for the previous device or before a refresh never stands in for
+	// the current one
+	const current =
+		request &&
+		read?.deviceId === request.deviceId &&
+		read.generation === request.generation
+			? read
+			: request && capabilitiesCache.has(request.deviceId)
+				? {
+						...request,
+						capabilities: capabilitiesCache.get(request.deviceId) ?? null,
+						error: null,
+					}
+				: null;
+
+	return {
+		deviceId: current?.deviceId ?? null,
+		capabilities: current?.capabilities ?? null,
+		isLoading: !!deviceId && !current,
+		error: current?.error ?? null,
+		refresh,
+	};
+}
@@ -0,0 +1,51 @@
+import { type CameraDevice, listCameras } from "@bc/lib/camera";
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * Custom hook to list the cameras and keep the list up to date as devices
+ * are plugged in or removed
+ * @returns Cameras (empty until loaded), loading flag and a refresh function
+ */
+export function useCameraDevices(): {
+	devices: CameraDevice[];
+	isLoading: boolean;
+	refresh: () => Promise<void>;
+} {
+	const [devices, setDevices] = useState<CameraDevice[]>([]);
+	const [isLoading, setIsLoading] = useState(true);
+
+	const refresh = useCallback(async () => {
+		setDevices(await listCameras());
+	}, []);
+
+	useEffect(() => {
+		let cancelled = false;
+
+		void listCameras().then((cameras) => {
+			if (cancelled) return;
+			setDevices(cameras);
+			setIsLoading(false);
+		});
+
+		// Permission was granted by the first listing, no need to ask again
+		const handleDeviceChange = () => {
+			void listCameras({ requestPermission: false }).then((cameras) => {
+				if (!cancelled) setDevices(cameras);
+			});
+		};
+		navigator.mediaDevices?.addEventListener(
+			"devicechange",
+			handleDeviceChange,
+		);
+
+		return () => {
+			cancelled = true;
+			navigator.mediaDevices?.removeEventListener(
+				"devicechange",
+				handleDeviceChange,
+			);
+		};
+	}, []);
+
+	return { devices, isLoading, refresh };
+}
@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useState } from "react";
+
+export interface DeviceLevel {
+	/** Rotation in the screen plane in degrees, 0 when the horizon is level */
+	roll: number;
+	/** Tilt of the camera axis in degrees, 0 when pointing at the horizon */
+	pitch: number;
+}
+
+export type LevelPermission = "granted" | "denied" | "prompt" | "unsupported";
+
+// iOS Safari gates orientation events behind a permission prompt
+type OrientationEventWithPermission = typeof DeviceOrientationEvent & {
+	requestPermission?: () => Promise<PermissionState>;
+};
+
+// Share of each new reading mixed into the displayed value
+const SMOOTHING = 0.2;
+
+function getInitialPermission(): LevelPermission {
+	if (typeof window === "undefined" || !("DeviceOrientationEvent" in window)) {
+		return "unsupported";
+	}
+	return (DeviceOrientationEvent as OrientationEventWithPermission)
+		.requestPermission
+		? "prompt"
+		: "granted";
+}
+
+function normalizeAngle(degrees: number): number {
+	return ((((degrees + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Compute roll and pitch relative to the screen from device orientation
+ * @param beta - Front-back tilt in degrees
+ * @param gamma - Left-right tilt in degrees
+ * @param screenAngle - Screen orientation angle in degrees
+ * @returns DeviceLevel - Roll and pitch in degrees
+ */
+export function getDeviceLevel(
+	beta: number,
+	gamma: number,
+	screenAngle: number,
+): DeviceLevel {
+	const b = (beta * Math.PI) / 180;
+	const g = (gamma * Math.PI) / 180;
+
+	// Direction of "up" in device coordinates
+	const x = -Math.cos(b) * Math.sin(g);
+	const y = Math.sin(b);
+	const z = Math.cos(b) * Math.cos(g);
+
+	return {
+		roll: normalizeAngle((Math.atan2(x, y) * 180) / Math.PI - screenAngle),
+		pitch: (Math.asin(Math.max(-1, Math.min(1, z))) * 180) / Math.PI,
+	};
+}
+
+/**
+ * Custom hook to read the device level from DeviceOrientationEvent
+ * @param enabled - Whether to listen for orientation changes
+ * @returns Level (null until the first reading), permission state and a
+ * function to request permission, which must be called from a user gesture
+ */
+export function useDeviceLevel(enabled: boolean): {
+	level: DeviceLevel | null;
+	permission: LevelPermission;
+	requestPermission: () => Promise<boolean>;
+} {
+	const [level, setLevel] = useState<DeviceLevel | null>(null);
+	const [permission, setPermission] = useState<LevelPermission>("prompt");
+
+	useEffect(() => {
+		setPermission(getInitialPermission());
+	}, []);
+
+	const requestPermission = useCallback(async () => {
+		const request = (DeviceOrientationEvent as OrientationEventWithPermission)
+			.requestPermission;
+		if (!request) return true;
+
+		try {
+			const result = await request();
+			setPermission(result === "granted" ? "granted" : "denied");
+			return result === "granted";
+		} catch (error) {
+			console.warn("Device orientation permission request failed:", error);
+			setPermission("denied");
+			return false;
+		}
+	}, []);
+
+	useEffect(() => {
+		if (!enabled || permission !== "granted") return;
+
+		const handleOrientation = (event: DeviceOrientationEvent) => {
+			if (event.beta === null || event.gamma === null) return;
+
+			const next = getDeviceLevel(
+				event.beta,
+				event.gamma,
+				screen.orientation?.angle ?? 0,
+			);
+			setLevel((current) =>
+				current
+					? {
+							roll: normalizeAngle(
+								current.roll +
+									normalizeAngle(next.roll - current.roll) * SMOOTHING,
+							),
+							pitch: current.pitch + (next.pitch - current.pitch) * SMOOTHING,
+						}
+					: next,
+			);
+		};
+
+		window.addEventListener("deviceorientation", handleOrientation);
+
+		return () => {
+			window.removeEventListener("deviceorientation", handleOrientation);
+			setLevel(null);
+		};
+	}, [enabled, permission]);
+
+	return { level, permission, requestPermission };
+}
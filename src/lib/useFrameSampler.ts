@@ -0,0 +1,61 @@
+import { type RefObject, useEffect, useRef } from "react";
+
+export interface FrameSamplerOptions {
+	enabled: boolean;
+	/** Minimum time between samples in milliseconds */
+	intervalMs?: number;
+	/** Width of the downscaled frame, height follows the video aspect ratio */
+	width?: number;
+}
+
+/**
+ * Custom hook to sample downscaled preview frames at a throttled rate
+ * @param videoRef - Video element showing the camera stream
+ * @param options - Enable flag, sampling interval and frame width
+ * @param onFrame - Called with the pixels of each sampled frame
+ */
+export function useFrameSampler(
+	videoRef: RefObject<HTMLVideoElement | null>,
+	{ enabled, intervalMs = 200, width = 256 }: FrameSamplerOptions,
+	onFrame: (frame: ImageData) => void,
+): void {
+	// Keep the latest callback without restarting the sampling loop
+	const onFrameRef = useRef(onFrame);
+	onFrameRef.current = onFrame;
+
+	useEffect(() => {
+		if (!enabled) return;
+
+		const canvas = document.createElement("canvas");
+		const context = canvas.getContext("2d", { willReadFrequently: true });
+		if (!context) return;
+
+		let frameId = 0;
+		let lastSample = 0;
+
+		const sample = (now: number) => {
+			frameId = requestAnimationFrame(sample);
+			if (now - lastSample < intervalMs) return;
+
+			const video = videoRef.current;
+			if (!video || video.readyState < 2 || video.videoWidth === 0) return;
+			lastSample = now;
+
+			const height = Math.max(
+				1,
+				Math.round((width * video.videoHeight) / video.videoWidth),
+			);
+			if (canvas.width !== width || canvas.height !== height) {
+				canvas.width = width;
+				canvas.height = height;
+			}
+
+			context.drawImage(video, 0, 0, width, height);
+			onFrameRef.current(context.getImageData(0, 0, width, height));
+		};
+
+		frameId = requestAnimationFrame(sample);
+
+		return () => cancelAnimationFrame(frameId);
+	}, [videoRef, enabled, intervalMs, width]);
+}
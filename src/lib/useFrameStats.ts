@@ -0,0 +1,128 @@
+import { type RefObject, useEffect, useState } from "react";
+
+export interface FrameStats {
+	/** Frames delivered per second, measured over the sample window */
+	fps: number;
+	/** Mean time between frames in milliseconds */
+	meanIntervalMs: number;
+	/** Standard deviation of the frame interval in milliseconds */
+	jitterMs: number;
+	/** Frame intervals in milliseconds, oldest first, for graphing */
+	intervals: number[];
+	/** Frames presented for composition since the stream started */
+	presentedFrames: number;
+	/** Frames the browser dropped, from getVideoPlaybackQuality() */
+	droppedFrames: number;
+	/** Resolution of the last delivered frame */
+	width: number;
+	height: number;
+}
+
+export type FrameStatsSupport = "supported" | "unsupported";
+
+// Number of frame intervals kept for the statistics and the graph
+const WINDOW_SIZE = 90;
+
+// Intervals above this are treated as a new stream, not a slow frame
+const MAX_INTERVAL_MS = 1000;
+
+// How often the measured statistics are published to React
+const PUBLISH_INTERVAL_MS = 250;
+
+/**
+ * Summarize a window of frame intervals
+ * @param intervals - Time between consecutive frames in milliseconds
+ * @returns Delivered FPS, mean interval and jitter (standard deviation)
+ */
+export function summarizeFrameIntervals(
+	intervals: number[],
+): Pick<FrameStats, "fps" | "meanIntervalMs" | "jitterMs"> {
+	if (intervals.length === 0) {
+		return { fps: 0, meanIntervalMs: 0, jitterMs: 0 };
+	}
+
+	const total = intervals.reduce((sum, interval) => sum + interval, 0);
+	const mean = total / intervals.length;
+	const variance =
+		intervals.reduce((sum, interval) => sum + (interval - mean) ** 2, 0) /
+		intervals.length;
+
+	return {
+		fps: total > 0 ? (intervals.length * 1000) / total : 0,
+		meanIntervalMs: mean,
+		jitterMs: Math.sqrt(variance),
+	};
+}
+
+/**
+ * Custom hook to measure the frames a video element actually receives
+ *
+ * Uses requestVideoFrameCallback, timing frames by their capture time when
+ * the browser reports it, so the result reflects what the camera delivers
+ * rather than the requested frame rate.
+ * @param videoRef - Video element showing the camera stream
+ * @param enabled - Whether to measure
+ * @returns Latest statistics (null until two frames arrived) and whether
+ * the browser supports requestVideoFrameCallback
+ */
+export function useFrameStats(
+	videoRef: RefObject<HTMLVideoElement | null>,
+	enabled: boolean,
+): { stats: FrameStats | null; support: FrameStatsSupport } {
+	const [stats, setStats] = useState<FrameStats | null>(null);
+	const [support, setSupport] = useState<FrameStatsSupport>("supported");
+
+	useEffect(() => {
+		if (!enabled) return;
+
+		const video = videoRef.current;
+		if (!video) return;
+		if (!("requestVideoFrameCallback" in video)) {
+			setSupport("unsupported");
+			return;
+		}
+
+		const intervals: number[] = [];
+		let callbackId = 0;
+		let lastFrameTime: number | null = null;
+		let lastPublish = 0;
+
+		const onFrame = (now: number, metadata: VideoFrameCallbackMetadata) => {
+			callbackId = video.requestVideoFrameCallback(onFrame);
+
+			const frameTime = metadata.captureTime ?? metadata.expectedDisplayTime;
+			const interval = lastFrameTime === null ? 0 : frameTime - lastFrameTime;
+			// Longer gaps are stream restarts rather than slow frames
+			if (interval > 0 && interval < MAX_INTERVAL_MS) {
+				intervals.push(interval);
+				if (intervals.length > WINDOW_SIZE) intervals.shift();
+			}
+			lastFrameTime = frameTime;
+
+			if (intervals.length === 0 || now - lastPublish < PUBLISH_INTERVAL_MS) {
+				return;
+			}
+			lastPublish = now;
+
+			const quality = video.getVideoPlaybackQuality();
+			setStats({
+				...summarizeFrameIntervals(intervals),
+				intervals: [...intervals],
+				presentedFrames: metadata.presentedFrames,
+				droppedFrames: quality.droppedVideoFrames,
+				width: metadata.width,
+				height: metadata.height,
+			});
+		};
+
+		setSupport("supported");
+		callbackId = video.requestVideoFrameCallback(onFrame);
+
+		return () => {
+			video.cancelVideoFrameCallback(callbackId);
+			setStats(null);
+		};
+	}, [videoRef, enabled]);
+
+	return { stats, support };
+}
@@ -0,0 +1,112 @@
+import { useEffect, useRef } from "react";
+
+export interface PinchZoomOptions {
+	enabled: boolean;
+	/** Current zoom level, read when a gesture starts */
+	getZoom: () => number;
+	/** Called with the zoom level the gesture asks for */
+	onZoom: (zoom: number) => void;
+	onDoubleTap?: () => void;
+}
+
+// Two taps closer than this in time and space count as a double tap
+export const DOUBLE_TAP_MS = 300;
+const DOUBLE_TAP_DISTANCE = 30;
+// Zoom change per pixel of ctrl+wheel, which trackpads send for pinches
+const WHEEL_ZOOM_SPEED = 0.01;
+
+/**
+ * Custom hook for pinch-to-zoom and double-tap gestures on an element
+ *
+ * Handles two-finger pinches on touch screens and trackpad pinches, which
+ * browsers report as wheel events with the ctrl key held.
+ * @param element - Element receiving the gestures; pass it from state or a
+ * callback ref, so listeners move along when the element is remounted
+ * @param options - Enable flag, zoom accessors and double-tap callback
+ */
+export function usePinchZoom(
+	element: HTMLElement | null,
+	options: PinchZoomOptions,
+): void {
+	// Keep the latest callbacks without re-binding listeners
+	const optionsRef = useRef(options);
+	optionsRef.current = options;
+
+	useEffect(() => {
+		if (!element || !options.enabled) return;
+
+		const pointers = new Map<number, { x: number; y: number }>();
+		let pinch: { distance: number; zoom: number } | null = null;
+		let lastTap: { time: number; x: number; y: number } | null = null;
+
+		const getDistance = () => {
+			const [a, b] = [...pointers.values()];
+			return a && b ? Math.hypot(a.x - b.x, a.y - b.y) : 0;
+		};
+
+		const handlePointerDown = (event: PointerEvent) => {
+			pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+			if (pointers.size === 2) {
+				pinch = {
+					distance: getDistance(),
+					zoom: optionsRef.current.getZoom(),
+				};
+			}
+		};
+
+		const handlePointerMove = (event: PointerEvent) => {
+			if (!pointers.has(event.pointerId)) return;
+			pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+			if (pinch && pointers.size === 2 && pinch.distance > 0) {
+				optionsRef.current.onZoom(
+					pinch.zoom * (getDistance() / pinch.distance),
+				);
+			}
+		};
+
+		const handlePointerUp = (event: PointerEvent) => {
+			const wasPinching = pinch !== null;
+			pointers.delete(event.pointerId);
+			if (pointers.size < 2) pinch = null;
+			if (wasPinching || event.type === "pointercancel") {
+				lastTap = null;
+				return;
+			}
+
+			const now = Date.now();
+			if (
+				lastTap &&
+				now - lastTap.time < DOUBLE_TAP_MS &&
+				Math.hypot(event.clientX - lastTap.x, event.clientY - lastTap.y) <
+					DOUBLE_TAP_DISTANCE
+			) {
+				lastTap = null;
+				optionsRef.current.onDoubleTap?.();
+				return;
+			}
+			lastTap = { time: now, x: event.clientX, y: event.clientY };
+		};
+
+		const handleWheel = (event: WheelEvent) => {
+			if (!event.ctrlKey) return;
+			event.preventDefault();
+			const zoom = optionsRef.current.getZoom();
+			optionsRef.current.onZoom(zoom * (1 - event.deltaY * WHEEL_ZOOM_SPEED));
+		};
+
+		element.addEventListener("pointerdown", handlePointerDown);
+		element.addEventListener("pointermove", handlePointerMove);
+		element.addEventListener("pointerup", handlePointerUp);
+		element.addEventListener("pointercancel", handlePointerUp);
+		element.addEventListener("wheel", handleWheel, { passive: false });
+
+		return () => {
+			element.removeEventListener("pointerdown", handlePointerDown);
+			element.removeEventListener("pointermove", handlePointerMove);
+			element.removeEventListener("pointerup", handlePointerUp);
+			element.removeEventListener("pointercancel", handlePointerUp);
+			element.removeEventListener("wheel", handleWheel);
+		};
+	}, [element, options.enabled]);
+}
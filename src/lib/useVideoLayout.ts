@@ -0,0 +1,46 @@
+import { type VideoLayout, getVideoLayout } from "@bc/lib/videoGeometry";
+import { type RefObject, useEffect, useState } from "react";
+
+/**
+ * Custom hook to track where the video picture is rendered on screen
+ * @param videoRef - Video element showing the camera stream
+ * @returns VideoLayout | null - Current layout, null until the video is sized
+ */
+export function useVideoLayout(
+	videoRef: RefObject<HTMLVideoElement | null>,
+): VideoLayout | null {
+	const [layout, setLayout] = useState<VideoLayout | null>(null);
+
+	useEffect(() => {
+		const video = videoRef.current;
+		if (!video) return;
+
+		const update = () => {
+			const next = getVideoLayout(video);
+			setLayout((current) =>
+				current && JSON.stringify(current) === JSON.stringify(next)
+					? current
+					: next,
+			);
+		};
+
+		update();
+
+		// Element size follows the window and orientation; the picture size
+		// follows the stream resolution
+		const observer = new ResizeObserver(update);
+		observer.observe(video);
+		video.addEventListener("loadedmetadata", update);
+		video.addEventListener("resize", update);
+		window.addEventListener("resize", update);
+
+		return () => {
+			observer.disconnect();
+			video.removeEventListener("loadedmetadata", update);
+			video.removeEventListener("resize", update);
+			window.removeEventListener("resize", update);
+		};
+	}, [videoRef]);
+
+	return layout;
+}
@@ -0,0 +1,122 @@
+/**
+ * Geometry helpers for lining overlays up with the video preview
+ */
+
+export interface Rect {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+export interface VideoLayout {
+	/** Video element box, relative to its offset parent */
+	box: Rect;
+	/** Rendered video picture, relative to the element box */
+	content: Rect;
+}
+
+/**
+ * Compute where the video picture is drawn inside its element
+ *
+ * Honors `object-fit`, so with `cover` the rectangle extends past the element
+ * box and with `contain` it may be letterboxed inside it.
+ * @param video - Video element
+ * @returns Rect - Picture rectangle relative to the element box
+ */
+export function getVideoContentRect(video: HTMLVideoElement): Rect {
+	const width = video.clientWidth;
+	const height = video.clientHeight;
+	const { videoWidth, videoHeight } = video;
+
+	if (!videoWidth || !videoHeight || !width || !height) {
+		return { x: 0, y: 0, width, height };
+	}
+
+	const containScale = Math.min(width / videoWidth, height / videoHeight);
+	let scale: number;
+	switch (getComputedStyle(video).objectFit) {
+		case "fill":
+			return { x: 0, y: 0, width, height };
+		case "cover":
+			scale = Math.max(width / videoWidth, height / videoHeight);
+			break;
+		case "none":
+			scale = 1;
+			break;
+		case "scale-down":
+			scale = Math.min(1, containScale);
+			break;
+		default:
+			scale = containScale;
+	}
+
+	const contentWidth = videoWidth * scale;
+	const contentHeight = videoHeight * scale;
+
+	return {
+		x: (width - contentWidth) / 2,
+		y: (height - contentHeight) / 2,
+		width: contentWidth,
+		height: contentHeight,
+	};
+}
+
+/**
+ * Measure the video element box and the picture inside it
+ * @param video - Video element
+ * @returns VideoLayout - Box and content rectangles
+ */
+export function getVideoLayout(video: HTMLVideoElement): VideoLayout {
+	return {
+		box: {
+			x: video.offsetLeft + video.clientLeft,
+			y: video.offsetTop + video.clientTop,
+			width: video.clientWidth,
+			height: video.clientHeight,
+		},
+		content: getVideoContentRect(video),
+	};
+}
+
+/**
+ * Check whether the preview is flipped horizontally by a CSS transform
+ * @param video - Video element
+ * @returns boolean - true if mirrored
+ */
+export function isMirrored(video: HTMLVideoElement): boolean {
+	const transform = getComputedStyle(video).transform;
+	return transform !== "none" && new DOMMatrixReadOnly(transform).a < 0;
+}
+
+/**
+ * Map a point on screen to normalized video frame coordinates
+ *
+ * Accounts for `object-fit` cropping or letterboxing and for a horizontally
+ * mirrored preview (e.g. `transform: scaleX(-1)` on a front camera).
+ * @param video - Video element
+ * @param clientX - Horizontal viewport coordinate, e.g. from a pointer event
+ * @param clientY - Vertical viewport coordinate
+ * @returns { x: number; y: number } | null - Point between 0 and 1, or null
+ * when the point falls outside the rendered picture
+ */
+export function clientToVideoPoint(
+	video: HTMLVideoElement,
+	clientX: number,
+	clientY: number,
+): { x: number; y: number } | null {
+	const bounds = video.getBoundingClientRect();
+	if (bounds.width === 0 || bounds.height === 0) return null;
+
+	// Back to untransformed element pixels
+	const elementX = ((clientX - bounds.left) / bounds.width) * video.clientWidth;
+	const elementY =
+		((clientY - bounds.top) / bounds.height) * video.clientHeight;
+
+	const content = getVideoContentRect(video);
+	const x = (elementX - content.x) / content.width;
+	const y = (elementY - content.y) / content.height;
+	if (x < 0 || x > 1 || y < 0 || y > 1) return null;
+
+	return { x: isMirrored(video) ? 1 - x : x, y };
+}
@@ -0,0 +1,121 @@
+/**
+ * Minimal ZIP archive writer for building exports in the browser
+ *
+ * Entries are stored uncompressed: captures are already compressed images,
+ * so deflating them would cost time without saving space.
+ */
+
+export interface ZipEntry {
+	name: string;
+	data: Blob | Uint8Array<ArrayBuffer> | string;
+	lastModified?: Date | number;
+}
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (let i = 0; i < bytes.length; i++) {
+		crc = (CRC_TABLE[(crc ^ (bytes[i] ?? 0)) & 0xff] ?? 0) ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(value: Date | number): { time: number; date: number } {
+	const d = new Date(value);
+	return {
+		time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+		date:
+			((Math.max(d.getFullYear(), 1980) - 1980) << 9) |
+			((d.getMonth() + 1) << 5) |
+			d.getDate(),
+	};
+}
+
+async function toBytes(
+	data: ZipEntry["data"],
+): Promise<Uint8Array<ArrayBuffer>> {
+	if (typeof data === "string") return new TextEncoder().encode(data);
+	if (data instanceof Blob) return new Uint8Array(await data.arrayBuffer());
+	return data;
+}
+
+/**
+ * Build a ZIP archive from a list of files
+ * @param entries - Files to include
+ * @returns Promise<Blob> - application/zip blob
+ */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+	const encoder = new TextEncoder();
+	const parts: BlobPart[] = [];
+	const centralDirectory: Uint8Array<ArrayBuffer>[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.name);
+		const data = await toBytes(entry.data);
+		const crc = crc32(data);
+		const { time, date } = toDosDateTime(entry.lastModified ?? Date.now());
+
+		// Local file header
+		const local = new DataView(new ArrayBuffer(30));
+		local.setUint32(0, 0x04034b50, true);
+		local.setUint16(4, 20, true); // version needed
+		local.setUint16(6, 0x0800, true); // UTF-8 file names
+		local.setUint16(8, 0, true); // stored
+		local.setUint16(10, time, true);
+		local.setUint16(12, date, true);
+		local.setUint32(14, crc, true);
+		local.setUint32(18, data.length, true);
+		local.setUint32(22, data.length, true);
+		local.setUint16(26, name.length, true);
+		local.setUint16(28, 0, true);
+
+		// Central directory header
+		const central = new DataView(new ArrayBuffer(46 + name.length));
+		central.setUint32(0, 0x02014b50, true);
+		central.setUint16(4, 20, true); // version made by
+		central.setUint16(6, 20, true); // version needed
+		central.setUint16(8, 0x0800, true);
+		central.setUint16(10, 0, true);
+		central.setUint16(12, time, true);
+		central.setUint16(14, date, true);
+		central.setUint32(16, crc, true);
+		central.setUint32(20, data.length, true);
+		central.setUint32(24, data.length, true);
+		central.setUint16(28, name.length, true);
+		central.setUint32(42, offset, true);
+		new Uint8Array(central.buffer).set(name, 46);
+
+		parts.push(local.buffer, name, data);
+		centralDirectory.push(new Uint8Array(central.buffer));
+		offset += 30 + name.length + data.length;
+	}
+
+	const directorySize = centralDirectory.reduce(
+		(size, header) => size + header.length,
+		0,
+	);
+
+	// End of central directory record
+	const end = new DataView(new ArrayBuffer(22));
+	end.setUint32(0, 0x06054b50, true);
+	end.setUint16(8, entries.length, true);
+	end.setUint16(10, entries.length, true);
+	end.setUint32(12, directorySize, true);
+	end.setUint32(16, offset, true);
+
+	return new Blob([...parts, ...centralDirectory, end.buffer], {
+		type: "application/zip",
+	});
+}
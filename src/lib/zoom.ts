@@ -0,0 +1,79 @@
+/**
+ * Zoom helpers for gestures, presets and smooth ramps
+ */
+
+import { normalizeValue } from "@bc/lib/camera";
+
+export interface ZoomRange {
+	min: number;
+	max: number;
+	step: number;
+}
+
+/**
+ * Clamp a zoom level to the camera's range and snap it to the zoom step
+ * @param zoom - Requested zoom level
+ * @param range - Zoom capability of the camera
+ * @returns number - Zoom level the camera accepts
+ */
+export function snapZoom(zoom: number, range: ZoomRange): number {
+	return normalizeValue(zoom, range);
+}
+
+/**
+ * Zoom levels that double-tap cycles through
+ * @param range - Zoom capability of the camera
+ * @returns number[] - Ascending presets, starting at the widest zoom
+ */
+export function getZoomPresets(range: ZoomRange): number[] {
+	const presets = [range.min, 2, 5, 10]
+		.filter((zoom) => zoom >= range.min && zoom <= range.max)
+		.map((zoom) => snapZoom(zoom, range));
+	return [...new Set(presets)];
+}
+
+/**
+ * Pick the preset after the current zoom, wrapping back to the widest
+ * @param zoom - Current zoom level
+ * @param range - Zoom capability of the camera
+ * @returns number - Next preset
+ */
+export function getNextZoomPreset(zoom: number, range: ZoomRange): number {
+	const presets = getZoomPresets(range);
+	return presets.find((preset) => preset > zoom + 0.01) ?? range.min;
+}
+
+/**
+ * Ramp the zoom from one level to another with an ease-in-out curve
+ * @param from - Starting zoom level
+ * @param to - Target zoom level
+ * @param durationMs - Length of the ramp in milliseconds
+ * @param onStep - Called with every intermediate level and finally with `to`
+ * @returns () => void - Stops the ramp where it is
+ */
+export function rampZoom(
+	from: number,
+	to: number,
+	durationMs: number,
+	onStep: (zoom: number) => void,
+): () => void {
+	let frameId = 0;
+	const start = performance.now();
+
+	const step = (now: number) => {
+		const progress = Math.min(1, (now - start) / durationMs);
+		const eased =
+			progress < 0.5
+				? 2 * progress * progress
+				: 1 - (-2 * progress + 2) ** 2 / 2;
+		onStep(from + (to - from) * eased);
+
+		if (progress < 1) {
+			frameId = requestAnimationFrame(step);
+		}
+	};
+
+	frameId = requestAnimationFrame(step);
+
+	return () => cancelAnimationFrame(frameId);
+}